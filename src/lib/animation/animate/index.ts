@@ -0,0 +1,122 @@
+import type { GenericKeyframesTarget } from '../../types';
+import type { MotionValue } from '../../value';
+import { GroupPlaybackControls } from '../controls/Group';
+import type {
+	AnimationPlaybackControls,
+	AnimationScope,
+	DOMKeyframesDefinition,
+	DynamicAnimationOptions,
+	ElementOrSelector,
+	ObjectTarget,
+	ValueAnimationTransition,
+} from '../types';
+import type { AnimationSequence, SequenceOptions } from '../sequence/types';
+import { animateSequence } from './sequence';
+import { animateSubject, type AnimationSubject } from './subject';
+
+/**
+ * A sequence is an array of segments, at least one of which is itself an array.
+ * Leading labels are allowed, so we can't only check the first item.
+ */
+function isSequence(value: unknown): value is AnimationSequence {
+	return Array.isArray(value) && value.some(Array.isArray);
+}
+
+/**
+ * Creates an animate function that resolves selectors within the provided scope,
+ * and records every animation it starts in the scope's `animations`.
+ */
+export function createScopedAnimate(scope?: AnimationScope) {
+	/**
+	 * Animate a sequence
+	 */
+	function scopedAnimate(sequence: AnimationSequence, options?: SequenceOptions): AnimationPlaybackControls;
+	/**
+	 * Animate a string
+	 */
+	function scopedAnimate(
+		value: string | MotionValue<string>,
+		keyframes: string | GenericKeyframesTarget<string>,
+		options?: ValueAnimationTransition<string>
+	): AnimationPlaybackControls;
+	/**
+	 * Animate a number
+	 */
+	function scopedAnimate(
+		value: number | MotionValue<number>,
+		keyframes: number | GenericKeyframesTarget<number>,
+		options?: ValueAnimationTransition<number>
+	): AnimationPlaybackControls;
+	/**
+	 * Animate a generic motion value
+	 */
+	function scopedAnimate<V extends string | number>(
+		value: V | MotionValue<V>,
+		keyframes: V | GenericKeyframesTarget<V>,
+		options?: ValueAnimationTransition<V>
+	): AnimationPlaybackControls;
+	/**
+	 * Animate an Element
+	 */
+	function scopedAnimate(
+		element: ElementOrSelector,
+		keyframes: DOMKeyframesDefinition,
+		options?: DynamicAnimationOptions
+	): AnimationPlaybackControls;
+	/**
+	 * Animate an object
+	 */
+	function scopedAnimate<O extends {}>(
+		object: O | O[],
+		keyframes: ObjectTarget<O>,
+		options?: DynamicAnimationOptions
+	): AnimationPlaybackControls;
+	/**
+	 * Implementation
+	 */
+	function scopedAnimate<O extends {}>(
+		subjectOrSequence: AnimationSubject | AnimationSequence,
+		optionsOrKeyframes?: any,
+		options?: ValueAnimationTransition<any> | DynamicAnimationOptions
+	): AnimationPlaybackControls {
+		const animations = isSequence(subjectOrSequence)
+			? animateSequence(subjectOrSequence, optionsOrKeyframes, scope)
+			: animateSubject<O>(subjectOrSequence, optionsOrKeyframes, options, scope);
+
+		const animation = new GroupPlaybackControls(animations);
+
+		if (scope) {
+			scope.animations.push(animation);
+		}
+
+		return animation;
+	}
+
+	return scopedAnimate;
+}
+
+/**
+ * Animate a `MotionValue`, a single number or string, one or more elements, or plain
+ * JavaScript objects.
+ *
+ * ```javascript
+ * animate('li', { opacity: 1, x: 0 }, { duration: 0.3 })
+ *
+ * animate(0, 100, { onUpdate: (latest) => console.log(latest) })
+ * ```
+ *
+ * Or pass an array of segments to animate a sequence. Every segment starts
+ * when the previous one ends, unless positioned with `at`.
+ *
+ * ```javascript
+ * animate([
+ *   ['ul', { opacity: 1 }],
+ *   'items',
+ *   ['li', { x: [-100, 0] }, { at: '-0.1' }],
+ *   ['button', { scale: 1.1 }, { at: 'items' }],
+ * ])
+ * ```
+ *
+ * @public
+ */
+export const animate = createScopedAnimate();
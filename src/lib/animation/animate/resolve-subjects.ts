@@ -0,0 +1,20 @@
+import { resolveElements, type SelectorCache } from '../../render/dom/utils/resolve-element';
+import type { AnimationScope, DOMKeyframesDefinition, ElementOrSelector } from '../types';
+import { isDOMKeyframes } from '../utils/is-dom-keyframes';
+
+export function resolveSubjects<O extends {}>(
+	subject: string | Element | Element[] | NodeListOf<Element> | O | O[],
+	keyframes: DOMKeyframesDefinition,
+	scope?: AnimationScope,
+	selectorCache?: SelectorCache
+) {
+	if (typeof subject === 'string' && isDOMKeyframes(keyframes)) {
+		return resolveElements(subject as ElementOrSelector, scope, selectorCache);
+	} else if (subject instanceof NodeList) {
+		return Array.from(subject);
+	} else if (Array.isArray(subject)) {
+		return subject;
+	} else {
+		return [subject];
+	}
+}
@@ -0,0 +1,17 @@
+import { animateMotionValue } from '../interfaces/motion-value';
+import type { Transition } from '../../types';
+import { motionValue as createMotionValue, type MotionValue } from '../../value';
+import { isMotionValue } from '../../value/utils/is-motion-value';
+import type { UnresolvedKeyframes } from '../../render/utils/KeyframesResolver';
+
+export function animateSingleValue<V extends string | number>(
+	value: MotionValue<V> | V,
+	keyframes: V | UnresolvedKeyframes<V>,
+	options?: Transition
+) {
+	const motionValue = isMotionValue(value) ? value : createMotionValue(value);
+
+	motionValue.start(animateMotionValue('', motionValue, keyframes, options));
+
+	return motionValue.animation!;
+}
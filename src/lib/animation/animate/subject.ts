@@ -0,0 +1,104 @@
+import { visualElementStore } from '../../render/store.svelte';
+import type { GenericKeyframesTarget, TargetAndTransition } from '../../types';
+import { invariant } from '../../utils/errors';
+import type { MotionValue } from '../../value';
+import { isMotionValue } from '../../value/utils/is-motion-value';
+import { animateTarget } from '../interfaces/visual-target';
+import type {
+	AnimationPlaybackControls,
+	AnimationScope,
+	DOMKeyframesDefinition,
+	DynamicAnimationOptions,
+	ElementOrSelector,
+	ObjectTarget,
+	ValueAnimationTransition,
+} from '../types';
+import { createDOMVisual, createObjectVisual } from '../utils/create-visual';
+import { isDOMKeyframes } from '../utils/is-dom-keyframes';
+import { resolveSubjects } from './resolve-subjects';
+import { animateSingleValue } from './single-value';
+
+export type AnimationSubject = Element | MotionValue<any> | any;
+
+function isSingleValue<O extends {}>(
+	subject: MotionValue | O,
+	keyframes: O | DOMKeyframesDefinition | GenericKeyframesTarget<any>
+) {
+	return (
+		isMotionValue(subject) ||
+		typeof subject === 'number' ||
+		(typeof subject === 'string' && !isDOMKeyframes(keyframes))
+	);
+}
+
+/**
+ * The keyframes and options of a single value can be given as those of its `default` value.
+ */
+function hasDefault<T>(definition: T): definition is T & { default: T } {
+	return typeof definition === 'object' && definition !== null && 'default' in definition && Boolean(definition.default);
+}
+
+/**
+ * A single value is the only one animated, so any stagger resolves to its first delay.
+ */
+function resolveValueTransition({
+	delay,
+	...transition
+}: ValueAnimationTransition<any> | DynamicAnimationOptions): ValueAnimationTransition<any> {
+	return { ...transition, delay: typeof delay === 'function' ? delay(0, 1) : delay };
+}
+
+/**
+ * Implementation
+ */
+export function animateSubject<O extends Object>(
+	subject: AnimationSubject,
+	keyframes: number | string | GenericKeyframesTarget<any> | DOMKeyframesDefinition | ObjectTarget<O>,
+	options?: ValueAnimationTransition<any> | DynamicAnimationOptions,
+	scope?: AnimationScope
+): AnimationPlaybackControls[] {
+	const animations: AnimationPlaybackControls[] = [];
+
+	if (isSingleValue(subject, keyframes)) {
+		animations.push(
+			animateSingleValue(
+				subject,
+				hasDefault(keyframes) ? keyframes.default : keyframes,
+				options && resolveValueTransition(hasDefault(options) ? options.default : options)
+			)
+		);
+	} else {
+		const subjects = resolveSubjects(subject as ElementOrSelector | O, keyframes as DOMKeyframesDefinition, scope);
+
+		const numSubjects = subjects.length;
+
+		invariant(Boolean(numSubjects), 'No valid elements provided.');
+
+		for (let i = 0; i < numSubjects; i++) {
+			const thisSubject = subjects[i];
+
+			if (!visualElementStore.has(thisSubject)) {
+				if (thisSubject instanceof HTMLElement || thisSubject instanceof SVGElement) {
+					createDOMVisual(thisSubject);
+				} else {
+					createObjectVisual(thisSubject);
+				}
+			}
+
+			const visual = visualElementStore.get(thisSubject)!;
+
+			const transition = { ...options };
+
+			/**
+			 * Resolve stagger function if provided.
+			 */
+			if ('delay' in transition && typeof transition.delay === 'function') {
+				transition.delay = transition.delay(i, numSubjects);
+			}
+
+			animations.push(...animateTarget(visual, { ...(keyframes as object), transition } as TargetAndTransition, {}));
+		}
+	}
+
+	return animations;
+}
@@ -0,0 +1,383 @@
+import { anticipate } from '../../easing/anticipate';
+import { backInOut } from '../../easing/back';
+import { circInOut } from '../../easing/circ';
+import type { EasingDefinition } from '../../easing/types';
+import { DOMKeyframesResolver } from '../../render/dom/DOMKeyframesResolver';
+import type { ResolvedKeyframes } from '../../render/utils/KeyframesResolver';
+import { millisecondsToSeconds, secondsToMilliseconds } from '../../utils/time-conversion';
+import type { MotionValue } from '../../value';
+import { isGenerator } from '../generators/utils/is-generator';
+import type { ValueAnimationOptions, ValueAnimationOptionsWithRenderContext } from '../types';
+import { BaseAnimation, type ValueAnimationOptionsWithDefaults } from './BaseAnimation';
+import { MainThreadAnimation } from './MainThreadAnimation.svelte';
+import { acceleratedValues } from './utils/accelerated-values';
+import { startWaapiAnimation } from './waapi';
+import { isWaapiSupportedEasing } from './waapi/easing';
+import { getFinalKeyframe } from './waapi/utils/get-final-keyframe';
+import { supportsLinearEasing } from './waapi/utils/supports-linear-easing';
+import { supportsWaapi } from './waapi/utils/supports-waapi';
+
+/**
+ * 10ms is chosen here as it strikes a balance between smooth
+ * results (more than one keyframe per frame at 60fps) and
+ * keyframe quantity.
+ */
+const sampleDelta = 10; //ms
+
+/**
+ * Implement a practical max duration for keyframe generation
+ * to prevent infinite loops
+ */
+const maxDuration = 20_000;
+
+/**
+ * Check if an animation can run natively via WAAPI or requires pregenerated keyframes.
+ * WAAPI doesn't support spring or inertia animations so we need to generate keyframes
+ * for these, and for easing functions that can't be expressed natively.
+ */
+function requiresPregeneratedKeyframes<T extends string | number>(options: ValueAnimationOptions<T>) {
+	return (
+		isGenerator(options.type) ||
+		options.type === 'spring' ||
+		options.type === 'inertia' ||
+		options.type === 'decay' ||
+		!isWaapiSupportedEasing(options.ease)
+	);
+}
+
+/**
+ * Run a renderless main thread animation to completion, sampling its value every
+ * `sampleDelta` milliseconds, and return the samples as linearly-eased keyframes.
+ */
+function pregenerateKeyframes<T extends string | number>(
+	keyframes: ResolvedKeyframes<T>,
+	options: ValueAnimationOptions<T>
+) {
+	const sampleAnimation = new MainThreadAnimation({
+		...options,
+		keyframes,
+		repeat: 0,
+		delay: 0,
+		isGenerator: true,
+	});
+
+	let state = { done: false, value: keyframes[0] };
+	const pregeneratedKeyframes: T[] = [];
+
+	/**
+	 * Bail after 20 seconds of pre-generated keyframes as it's likely
+	 * we're heading for an infinite loop.
+	 */
+	let t = 0;
+	while (!state.done && t < maxDuration) {
+		state = sampleAnimation.sample(t);
+		pregeneratedKeyframes.push(state.value);
+		t += sampleDelta;
+	}
+
+	return {
+		times: undefined,
+		keyframes: pregeneratedKeyframes,
+		duration: t - sampleDelta,
+		ease: 'linear' as EasingDefinition,
+	};
+}
+
+const unsupportedEasingFunctions = {
+	anticipate,
+	backInOut,
+	circInOut,
+};
+
+function isUnsupportedEase(key: string): key is keyof typeof unsupportedEasingFunctions {
+	return key in unsupportedEasingFunctions;
+}
+
+interface ResolvedAcceleratedAnimation {
+	animation: Animation;
+	duration: number;
+	times: ValueAnimationOptions['times'];
+	type: ValueAnimationOptions['type'];
+	ease: ValueAnimationOptions['ease'];
+	keyframes: string[] | number[];
+}
+
+export interface AcceleratedValueAnimationOptions<T extends string | number = number>
+	extends ValueAnimationOptions<T> {
+	name: string;
+	motionValue: MotionValue<T>;
+}
+
+/**
+ * An animation that runs on the compositor via the Web Animations API, so it keeps
+ * running smoothly while the main thread is busy.
+ *
+ * Only values that the browser can animate without triggering layout or paint are
+ * supported. See `AcceleratedAnimation.supports`.
+ */
+export class AcceleratedAnimation<T extends string | number> extends BaseAnimation<T, ResolvedAcceleratedAnimation> {
+	protected declare options: ValueAnimationOptionsWithDefaults<T> & AcceleratedValueAnimationOptions<T>;
+
+	constructor(options: ValueAnimationOptionsWithRenderContext<T>) {
+		super(options);
+
+		const { name, motionValue, element, keyframes } = this.options;
+
+		this.resolver = new DOMKeyframesResolver<T>(
+			keyframes,
+			(resolvedKeyframes: ResolvedKeyframes<T>, finalKeyframe: T) =>
+				this.onKeyframesResolved(resolvedKeyframes, finalKeyframe),
+			name,
+			motionValue,
+			element
+		);
+
+		this.resolver.scheduleResolve();
+	}
+
+	protected initPlayback(keyframes: ResolvedKeyframes<T>, finalKeyframe: T) {
+		let { duration = 300, times, ease, type, motionValue, name, startTime } = this.options;
+
+		/**
+		 * If element has since been unmounted, return false to indicate
+		 * the animation failed to initialised.
+		 */
+		if (!motionValue.owner || !motionValue.owner.current) {
+			return false;
+		}
+
+		/**
+		 * If the user has provided an easing function name that isn't supported
+		 * by WAAPI (like "anticipate"), we need to provide the corressponding
+		 * function. This will later get converted to a linear() easing function.
+		 */
+		if (typeof ease === 'string' && supportsLinearEasing() && isUnsupportedEase(ease)) {
+			ease = unsupportedEasingFunctions[ease];
+		}
+
+		/**
+		 * If this animation needs pre-generated keyframes then generate.
+		 */
+		if (requiresPregeneratedKeyframes(this.options)) {
+			const { onComplete, onUpdate, motionValue, element, ...options } = this.options;
+
+			const pregeneratedAnimation = pregenerateKeyframes(keyframes, options);
+
+			keyframes = pregeneratedAnimation.keyframes;
+
+			// If this is a very short animation, ensure we have
+			// at least two keyframes to animate between as older browsers
+			// can't animate between a single keyframe.
+			if (keyframes.length === 1) {
+				keyframes[1] = keyframes[0];
+			}
+
+			duration = pregeneratedAnimation.duration;
+			times = pregeneratedAnimation.times;
+			ease = pregeneratedAnimation.ease;
+			type = 'keyframes';
+		}
+
+		const animation = startWaapiAnimation(
+			motionValue.owner.current as HTMLElement,
+			name,
+			keyframes as string[] | number[],
+			{ ...this.options, duration, times, ease }
+		);
+
+		// Override the browser calculated startTime with one synchronised to other JS
+		// and WAAPI animations starting this event loop.
+		animation.startTime = startTime ?? this.calcStartTime();
+
+		/**
+		 * Prefer the `onfinish` prop as it's more widely supported than
+		 * the `finished` promise.
+		 *
+		 * Here, we synchronously set the provided MotionValue to the end
+		 * keyframe. If we didn't, when the WAAPI animation is finished it would
+		 * be removed from the element which would then revert to its old styles.
+		 */
+		animation.onfinish = () => {
+			const { onComplete } = this.options;
+			motionValue.set(getFinalKeyframe(keyframes, this.options, finalKeyframe));
+			onComplete && onComplete();
+			this.cancel();
+			this.resolveFinishedPromise();
+		};
+
+		return {
+			animation,
+			duration,
+			times,
+			type,
+			ease,
+			keyframes: keyframes as string[] | number[],
+		};
+	}
+
+	get duration() {
+		const { resolved } = this;
+		if (!resolved) return 0;
+		const { duration } = resolved;
+		return millisecondsToSeconds(duration);
+	}
+
+	get time() {
+		const { resolved } = this;
+		if (!resolved) return 0;
+		const { animation } = resolved;
+		return millisecondsToSeconds((animation.currentTime as number) || 0);
+	}
+
+	set time(newTime: number) {
+		const { resolved } = this;
+		if (!resolved) return;
+
+		const { animation } = resolved;
+		animation.currentTime = secondsToMilliseconds(newTime);
+	}
+
+	get speed() {
+		const { resolved } = this;
+		if (!resolved) return 1;
+
+		const { animation } = resolved;
+		return animation.playbackRate;
+	}
+
+	set speed(newSpeed: number) {
+		const { resolved } = this;
+		if (!resolved) return;
+
+		const { animation } = resolved;
+		animation.playbackRate = newSpeed;
+	}
+
+	get state() {
+		const { resolved } = this;
+		if (!resolved) return 'idle';
+
+		const { animation } = resolved;
+		return animation.playState;
+	}
+
+	get startTime() {
+		const { resolved } = this;
+		if (!resolved) return null;
+
+		const { animation } = resolved;
+
+		// Coerce to number as TypeScript incorrectly types this
+		// as CSSNumberish
+		return animation.startTime as number;
+	}
+
+	play() {
+		if (this.isStopped) return;
+		const { resolved } = this;
+		if (!resolved) return;
+
+		const { animation } = resolved;
+		if (animation.playState === 'finished') {
+			this.updateFinishedPromise();
+		}
+
+		animation.play();
+	}
+
+	pause() {
+		const { resolved } = this;
+		if (!resolved) return;
+
+		const { animation } = resolved;
+		animation.pause();
+	}
+
+	stop() {
+		this.resolver.cancel();
+		this.isStopped = true;
+		if (this.state === 'idle') return;
+
+		this.resolveFinishedPromise();
+		this.updateFinishedPromise();
+
+		const { resolved } = this;
+		if (!resolved) return;
+
+		const { animation, keyframes, duration, type, ease, times } = resolved;
+
+		if (animation.playState === 'idle' || animation.playState === 'finished') {
+			return;
+		}
+
+		/**
+		 * WAAPI doesn't natively have any interruption capabilities.
+		 *
+		 * Rather than read commited styles back out of the DOM, we can
+		 * create a renderless JS animation and sample it twice to calculate
+		 * its current value, "previous" value, and therefore allow
+		 * Motion to calculate velocity for any subsequent animation.
+		 */
+		if (this.time) {
+			const { motionValue, onUpdate, onComplete, element, ...options } = this.options;
+
+			const sampleAnimation = new MainThreadAnimation({
+				...options,
+				keyframes: keyframes as T[],
+				duration,
+				type,
+				ease,
+				times,
+				isGenerator: true,
+			});
+
+			const sampleTime = secondsToMilliseconds(this.time);
+
+			motionValue.setWithVelocity(
+				sampleAnimation.sample(sampleTime - sampleDelta).value,
+				sampleAnimation.sample(sampleTime).value,
+				sampleDelta
+			);
+		}
+
+		const { onStop } = this.options;
+		onStop && onStop();
+
+		this.cancel();
+	}
+
+	complete() {
+		const { resolved } = this;
+		if (!resolved) return;
+		resolved.animation.finish();
+	}
+
+	cancel() {
+		const { resolved } = this;
+		if (!resolved) return;
+		resolved.animation.cancel();
+	}
+
+	static supports(
+		options: ValueAnimationOptionsWithRenderContext<any>
+	): options is AcceleratedValueAnimationOptions<any> {
+		const { motionValue, name, repeatDelay, repeatType, damping } = options;
+
+		return Boolean(
+			supportsWaapi() &&
+				name &&
+				acceleratedValues.has(name) &&
+				motionValue &&
+				motionValue.owner &&
+				motionValue.owner.current instanceof HTMLElement &&
+				/**
+				 * If we're outputting values to onUpdate then we can't use WAAPI as there's
+				 * no way to read the value from WAAPI every frame.
+				 */
+				!motionValue.owner.getProps().onUpdate &&
+				!repeatDelay &&
+				repeatType !== 'mirror' &&
+				damping !== 0
+		);
+	}
+}
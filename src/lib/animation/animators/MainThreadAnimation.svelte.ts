@@ -345,6 +345,15 @@ export class MainThreadAnimation<T extends string | number> extends BaseAnimatio
 		return state;
 	}
 
+	/**
+	 * Sample the animation at a given time without a driver. Used to pregenerate
+	 * keyframes for, and read values back from, hardware-accelerated animations.
+	 */
+	sample(time: number): AnimationState<T> {
+		this.startTime = 0;
+		return this.tick(time, true) as AnimationState<T>;
+	}
+
 	state: AnimationPlayState = 'idle';
 
 	get duration() {
@@ -0,0 +1,17 @@
+import type { EasingFunction } from '../../../../easing/types';
+import { progress } from '../../../../utils/progress';
+
+/**
+ * Sample an easing function into a CSS `linear()` easing, with a point
+ * every `resolution` milliseconds.
+ */
+export const generateLinearEasing = (easing: EasingFunction, duration: number, resolution: number = 10): string => {
+	let points = '';
+	const numPoints = Math.max(Math.round(duration / resolution), 2);
+
+	for (let i = 0; i < numPoints; i++) {
+		points += easing(progress(0, numPoints - 1, i)) + ', ';
+	}
+
+	return `linear(${points.substring(0, points.length - 2)})`;
+};
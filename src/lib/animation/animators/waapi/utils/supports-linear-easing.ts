@@ -0,0 +1,15 @@
+import { memo } from '../../../../utils/memo';
+
+/**
+ * Check whether the browser supports the CSS `linear()` easing function, which lets us
+ * hand arbitrary easing functions to WAAPI.
+ */
+export const supportsLinearEasing = /*@__PURE__*/ memo(() => {
+	try {
+		document.createElement('div').animate({ opacity: 0 }, { easing: 'linear(0, 1)' });
+	} catch (e) {
+		return false;
+	}
+
+	return true;
+});
@@ -0,0 +1,5 @@
+import { memo } from '../../../../utils/memo';
+
+export const supportsWaapi = /*@__PURE__*/ memo(() =>
+	typeof Element !== 'undefined' && Object.hasOwnProperty.call(Element.prototype, 'animate')
+);
@@ -84,32 +84,32 @@ export class BaseGroupPlaybackControls implements AnimationPlaybackControls
         return max
     }
 
-    private runAll<K extends keyof Omit<AnimationPlaybackControls, PropNames | "then" | "state">>(
-        cb: (input: AnimationPlaybackControls) => AnimationPlaybackControls[K]
+    private runAll(
+        methodName: keyof Omit<AnimationPlaybackControls, PropNames | "then" | "state">
     ) {
-        this.animations.forEach((controls) => cb(controls)())
+        this.animations.forEach((controls) => controls[methodName]())
     }
 
     flatten() {
-        this.runAll(controls => controls.flatten)
+        this.runAll("flatten")
     }
 
     play() {
-        this.runAll(controls => controls.play)
+        this.runAll("play")
     }
 
     pause() {
-        this.runAll(controls => controls.pause)
+        this.runAll("pause")
     }
 
     // Bound to accomodate common `return animation.stop` pattern
-    stop = () => this.runAll(controls => controls.stop)
+    stop = () => this.runAll("stop")
 
     cancel() {
-        this.runAll(controls => controls.cancel)
+        this.runAll("cancel")
     }
 
     complete() {
-        this.runAll(controls => controls.complete)
+        this.runAll("complete")
     }
 }
\ No newline at end of file
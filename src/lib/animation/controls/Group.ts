@@ -4,7 +4,7 @@ import { BaseGroupPlaybackControls } from './BaseGroup';
 export class GroupPlaybackControls extends BaseGroupPlaybackControls
     implements AnimationPlaybackControls
 {
-    animations: AnimationPlaybackControls[]
+    declare animations: AnimationPlaybackControls[]
 
     then(onResolve: VoidFunction, onReject?: VoidFunction) {
         return Promise.all(this.animations).then(onResolve).catch(onReject);
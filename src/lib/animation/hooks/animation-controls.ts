@@ -0,0 +1,104 @@
+import type { Visual } from '../../render/Visual.svelte';
+import { setTarget } from '../../render/utils/setters';
+import type { TargetAndTransition } from '../../types';
+import { invariant } from '../../utils/errors';
+import { animateVisual } from '../interfaces/visual';
+import type { AnimationControls } from '../types';
+
+function stopAnimation(visual: Visual<unknown>) {
+	visual.values.forEach((value) => value.stop());
+}
+
+function setVariants(visual: Visual<unknown>, variantLabels: string[]) {
+	const reversedLabels = [...variantLabels].reverse();
+
+	reversedLabels.forEach((key) => {
+		const variant = visual.getVariant(key);
+		variant && setTarget(visual, variant);
+
+		if (visual.variantChildren) {
+			visual.variantChildren.forEach((child) => {
+				setVariants(child, variantLabels);
+			});
+		}
+	});
+}
+
+export function setValues(visual: Visual<unknown>, definition: string | string[] | TargetAndTransition) {
+	if (Array.isArray(definition)) {
+		return setVariants(visual, definition);
+	} else if (typeof definition === 'string') {
+		return setVariants(visual, [definition]);
+	} else {
+		setTarget(visual, definition);
+	}
+}
+
+/**
+ * Create a set of `AnimationControls` that can be passed to the `animate` prop of any
+ * number of `motion` components, to start and stop their animations imperatively.
+ *
+ * Use `useAnimationControls` within components, so the controls are mounted with them.
+ *
+ * @public
+ */
+export function animationControls(): AnimationControls {
+	/**
+	 * Track whether the host component has mounted.
+	 */
+	let hasMounted = false;
+
+	/**
+	 * A collection of linked component animation controls.
+	 */
+	const subscribers = new Set<Visual<unknown>>();
+
+	const controls: AnimationControls = {
+		subscribe(visual) {
+			subscribers.add(visual);
+			return () => void subscribers.delete(visual);
+		},
+
+		start(definition, transitionOverride) {
+			invariant(
+				hasMounted,
+				'controls.start() should only be called after a component has mounted. Consider calling within an $effect.'
+			);
+
+			const animations: Array<Promise<any>> = [];
+			subscribers.forEach((visual) => {
+				animations.push(animateVisual(visual, definition, { transitionOverride }));
+			});
+
+			return Promise.all(animations);
+		},
+
+		set(definition) {
+			invariant(
+				hasMounted,
+				'controls.set() should only be called after a component has mounted. Consider calling within an $effect.'
+			);
+
+			return subscribers.forEach((visual) => {
+				setValues(visual, definition as string | string[] | TargetAndTransition);
+			});
+		},
+
+		stop() {
+			subscribers.forEach((visual) => {
+				stopAnimation(visual);
+			});
+		},
+
+		mount() {
+			hasMounted = true;
+
+			return () => {
+				hasMounted = false;
+				controls.stop();
+			};
+		},
+	};
+
+	return controls;
+}
@@ -0,0 +1,34 @@
+import { animationControls } from './animation-controls';
+
+/**
+ * Creates `AnimationControls`, which can be used to manually start, stop
+ * and sequence animations on one or more components.
+ *
+ * The returned `AnimationControls` should be passed to the `animate` property
+ * of the components you want to animate.
+ *
+ * These components can then be animated with the `start` method.
+ *
+ * ```svelte
+ * <script>
+ *   const controls = useAnimationControls()
+ *
+ *   $effect(() => {
+ *     controls.start({ x: 100, transition: { duration: 0.5 } })
+ *   })
+ * </script>
+ *
+ * <motion.div animate={controls} />
+ * ```
+ *
+ * @returns Animation controller with `start` and `stop` methods
+ *
+ * @public
+ */
+export function useAnimationControls() {
+	const controls = animationControls();
+
+	$effect(controls.mount);
+
+	return controls;
+}
@@ -10,6 +10,7 @@ import { instantAnimationState } from '../../utils/use-instant-transition-state'
 import type { Visual } from '../../render/Visual.svelte';
 import { getFinalKeyframe } from '../animators/waapi/utils/get-final-keyframe';
 import { frame } from '../../frameloop/frame';
+import { AcceleratedAnimation } from '../animators/AcceleratedAnimation';
 import { MainThreadAnimation } from '../animators/MainThreadAnimation.svelte';
 import { GroupPlaybackControls } from '../controls/Group';
 import { isTransitionDefined } from '../utils/is-transition-defined';
@@ -126,9 +127,9 @@ export const animateMotionValue =
 		 * WAAPI. Therefore, this animation must be JS to ensure it runs "under" the
 		 * optimised animation.
 		 */
-		// if (!isHandoff && AcceleratedAnimation.supports(options)) {
-		// 	return new AcceleratedAnimation(options);
-		// } else {
+		if (!isHandoff && AcceleratedAnimation.supports(options)) {
+			return new AcceleratedAnimation(options);
+		} else {
 			return new MainThreadAnimation(options);
-		// }
+		}
 	};
\ No newline at end of file
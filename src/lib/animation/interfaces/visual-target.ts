@@ -1,4 +1,3 @@
-import { transformProps } from '../../render/html/utils/transform';
 import type { AnimationTypeState } from '../../render/utils/animation-state';
 import type { Visual } from '../../render/Visual.svelte';
 import type { TargetAndTransition } from '../../types';
@@ -18,6 +17,15 @@ function shouldBlockAnimation({ protectedKeys, needsAnimating }: AnimationTypeSt
 	return shouldBlock;
 }
 
+/**
+ * Whether a value should be set instantly rather than animated, either because the
+ * closest `MotionConfig` skips animations, or because the value shouldn't animate
+ * when reduced motion is preferred.
+ */
+function shouldSkipAnimation(visual: Visual<unknown>, key: string) {
+	return Boolean(visual.motionConfig.skipAnimations || visual.shouldReduceValueMotion(key));
+}
+
 export function animateTarget(
 	visual: Visual<unknown>,
 	targetAndTransition: TargetAndTransition,
@@ -69,7 +77,7 @@ export function animateTarget(
 				key,
 				value,
 				valueTarget,
-				visual.shouldReduceMotion && transformProps.has(key) ? { type: false } : valueTransition,
+				shouldSkipAnimation(visual, key) ? { type: false } : valueTransition,
 				visual,
 				isHandoff
 			)
@@ -1,5 +1,6 @@
 import type { Visual } from "../../render/Visual.svelte";
 import { resolveVariant } from "../../render/utils/resolve-dynamic-variants";
+import type { DynamicOption } from "../types";
 import type { VisualAnimationOptions } from "./types";
 import { animateTarget } from "./visual-target";
 
@@ -11,7 +12,7 @@ export function animateVariant(
 	const resolved = resolveVariant(
 		visual,
 		variant,
-		// options.type === 'exit' ? visualElement.presenceContext?.custom : undefined
+		options.type === 'exit' ? visual.presenceContext?.custom : undefined
 	);
 
 	let { transition = visual.getDefaultTransition() || {} } = resolved || {};
@@ -24,7 +25,7 @@ export function animateVariant(
 	 * If we have a variant, create a callback that runs it as an animation.
 	 * Otherwise, we resolve a Promise immediately for a composable no-op.
 	 */
-	const getAnimation = resolved
+	const getAnimation: () => Promise<any> = resolved
 		? () => Promise.all(animateTarget(visual, resolved, options))
 		: () => Promise.resolve();
 
@@ -32,7 +33,7 @@ export function animateVariant(
 	 * If we have children, create a callback that runs all their animations.
 	 * Otherwise, we resolve a Promise immediately for a composable no-op.
 	 */
-	const getChildAnimations =
+	const getChildAnimations: (forwardDelay?: number) => Promise<any> =
 		visual.variantChildren && visual.variantChildren.size
 			? (forwardDelay = 0) => {
 					const { delayChildren = 0, staggerChildren, staggerDirection } = transition;
@@ -61,4 +62,50 @@ export function animateVariant(
 	} else {
 		return Promise.all([getAnimation(), getChildAnimations(options.delay)]);
 	}
-}
\ No newline at end of file
+}
+
+function animateChildren(
+	visual: Visual<unknown>,
+	variant: string,
+	delayChildren = 0,
+	staggerChildren: number | DynamicOption<number> = 0,
+	staggerDirection = 1,
+	options: VisualAnimationOptions
+) {
+	const animations: Promise<any>[] = [];
+
+	const numChildren = visual.variantChildren!.size;
+
+	/**
+	 * A stagger() function already knows which child to stagger from, so it
+	 * isn't affected by staggerDirection.
+	 */
+	let generateStaggerDuration: (i: number) => number;
+
+	if (typeof staggerChildren === 'function') {
+		generateStaggerDuration = (i = 0) => staggerChildren(i, numChildren);
+	} else {
+		const maxStaggerDuration = (numChildren - 1) * staggerChildren;
+
+		generateStaggerDuration =
+			staggerDirection === 1 ? (i = 0) => i * staggerChildren : (i = 0) => maxStaggerDuration - i * staggerChildren;
+	}
+
+	Array.from(visual.variantChildren!)
+		.sort(sortByTreeOrder)
+		.forEach((child, i) => {
+			child.notify('AnimationStart', variant);
+			animations.push(
+				animateVariant(child, variant, {
+					...options,
+					delay: delayChildren + generateStaggerDuration(i),
+				}).then(() => child.notify('AnimationComplete', variant))
+			);
+		});
+
+	return Promise.all(animations);
+}
+
+export function sortByTreeOrder(a: Visual<unknown>, b: Visual<unknown>) {
+	return a.sortNodePosition(b);
+}
@@ -1,9 +1,9 @@
-import type { TargetAndTransition, TargetResolver } from '../types';
+import type { GenericKeyframesTarget, TargetAndTransition, TargetResolver } from '../types';
 import type { Visual } from '../render/Visual.svelte';
 import type { Easing } from '../easing/types';
 import type { Driver } from './animators/drivers/types';
 import type { SVGPathProperties, VariantLabels } from '../motion/types';
-// import type { SVGAttributes } from '../render/svg/types-attributes';
+import type { SVGAttributes } from '../render/svg/types-attributes';
 import type { ProgressTimeline } from '../render/dom/scroll/observe';
 import type { MotionValue } from '../value';
 import type { KeyframeResolver, OnKeyframesResolved } from '../render/utils/KeyframesResolver';
@@ -72,9 +72,9 @@ export type SVGPathTransitions = {
 	[K in keyof SVGPathProperties]: Transition;
 };
 
-// export type SVGTransitions = {
-// 	[K in keyof SVGAttributes]: Transition;
-// };
+export type SVGTransitions = {
+	[K in keyof SVGAttributes]: Transition;
+};
 
 export type VariableTransitions = {
 	[key: `--${string}`]: Transition;
@@ -82,7 +82,7 @@ export type VariableTransitions = {
 
 export type AnimationOptionsWithValueOverrides<V = any> = StyleTransitions &
 	SVGPathTransitions &
-	// SVGTransitions &
+	SVGTransitions &
 	VariableTransitions &
 	ValueAnimationTransition<V>;
 
@@ -92,6 +92,10 @@ export interface DynamicAnimationOptions extends Omit<AnimationOptionsWithValueO
 
 export type ElementOrSelector = Element | Element[] | NodeListOf<Element> | string;
 
+export type ObjectTarget<O> = {
+	[K in keyof O]?: O[K] | GenericKeyframesTarget<O[K]>;
+};
+
 /**
  * @public
  */
@@ -155,9 +159,9 @@ export type StyleKeyframesDefinition = {
 	[K in keyof CSSStyleDeclarationWithTransform]?: ValueKeyframesDefinition;
 };
 
-// export type SVGKeyframesDefinition = {
-// 	[K in keyof SVGAttributes]?: ValueKeyframesDefinition;
-// };
+export type SVGKeyframesDefinition = {
+	[K in keyof SVGAttributes]?: ValueKeyframesDefinition;
+};
 
 export type VariableKeyframesDefinition = {
 	[key: `--${string}`]: ValueKeyframesDefinition;
@@ -168,7 +172,7 @@ export type SVGPathKeyframesDefinition = {
 };
 
 export type DOMKeyframesDefinition = StyleKeyframesDefinition &
-	// SVGKeyframesDefinition &
+	SVGKeyframesDefinition &
 	SVGPathKeyframesDefinition &
 	VariableKeyframesDefinition;
 
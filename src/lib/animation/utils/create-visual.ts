@@ -1,27 +1,43 @@
-import { HTMLVisual } from "../../render/html/HTMLVisual";
-import type { HTMLRenderState } from "../../render/html/types";
-import type { VisualOptions } from "../../render/types";
-import { visualElementStore } from '../../render/store.svelte';
+import { HTMLVisual } from '../../render/html/HTMLVisual';
+import { createHtmlRenderState } from '../../render/html/utils/create-render-state';
+import { ObjectVisual } from '../../render/object/ObjectVisual';
+import { createSvgRenderState } from '../../render/svg/utils/create-render-state';
+import { SVGVisual } from '../../render/svg/SVGVisual';
+import { isSVGElement } from '../../render/dom/utils/is-svg-element';
 
+/**
+ * Create a lightweight `Visual` for an element that isn't rendered by a `motion`
+ * component, so it can be animated imperatively.
+ */
 export function createDOMVisual(element: HTMLElement | SVGElement) {
+	const options = { presenceContext: null, props: {} };
+
+	if (isSVGElement(element)) {
+		new SVGVisual({
+			...options,
+			visualState: { renderState: createSvgRenderState(), latestValues: {} },
+		}).mount(element);
+	} else {
+		new HTMLVisual({
+			...options,
+			visualState: { renderState: createHtmlRenderState(), latestValues: {} },
+		}).mount(element);
+	}
+}
+
+export function createObjectVisual(subject: Object) {
 	const options = {
-		// presenceContext: null,
+		presenceContext: null,
 		props: {},
 		visualState: {
 			renderState: {
-				transform: {},
-				transformOrigin: {},
-				transformKeys: [],
-				style: {},
-				vars: {},
-				// attrs: {},
+				output: {},
 			},
 			latestValues: {},
 		},
-	} satisfies VisualOptions<HTMLElement, HTMLRenderState>;
-	const node = new HTMLVisual(options);
+	};
 
-	node.mount(element as any);
+	const node = new ObjectVisual(options);
 
-	visualElementStore.set(element, node);
-}
\ No newline at end of file
+	node.mount(subject);
+}
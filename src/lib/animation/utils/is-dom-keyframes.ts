@@ -0,0 +1,5 @@
+import type { DOMKeyframesDefinition } from '../types';
+
+export function isDOMKeyframes(keyframes: unknown): keyframes is DOMKeyframesDefinition {
+	return typeof keyframes === 'object' && !Array.isArray(keyframes);
+}
@@ -0,0 +1,81 @@
+import type { Easing } from '../../easing/types';
+import { easingDefinitionToFunction } from '../../easing/utils/map';
+import type { DynamicOption } from '../types';
+
+export type StaggerOrigin = 'first' | 'last' | 'center' | number;
+
+export type StaggerOptions = {
+	startDelay?: number;
+	from?: StaggerOrigin;
+	ease?: Easing;
+
+	/**
+	 * Lay the staggered items out as a grid of `[columns, rows]`, filled row by row,
+	 * and stagger them by their distance from the `from` cell.
+	 */
+	grid?: [number, number];
+};
+
+export function getOriginIndex(from: StaggerOrigin, total: number) {
+	if (from === 'first') {
+		return 0;
+	} else {
+		const lastIndex = total - 1;
+		return from === 'last' ? lastIndex : lastIndex / 2;
+	}
+}
+
+function getOriginCell(from: StaggerOrigin, [columns, rows]: [number, number]): [number, number] {
+	if (typeof from === 'number') {
+		return [from % columns, Math.floor(from / columns)];
+	} else if (from === 'first') {
+		return [0, 0];
+	} else if (from === 'last') {
+		return [columns - 1, rows - 1];
+	} else {
+		return [(columns - 1) / 2, (rows - 1) / 2];
+	}
+}
+
+/**
+ * Create a function that returns the delay for the `i`th of `total` items,
+ * for use as `delay` with `animate()` or as `staggerChildren` with variants.
+ *
+ * ```javascript
+ * animate('li', { opacity: 1 }, { delay: stagger(0.1, { from: 'center' }) })
+ * ```
+ *
+ * @public
+ */
+export function stagger(
+	duration: number = 0.1,
+	{ startDelay = 0, from = 0, ease, grid }: StaggerOptions = {}
+): DynamicOption<number> {
+	return (i: number, total: number) => {
+		let distance: number;
+		let maxDistance: number;
+
+		if (grid) {
+			const [columns, rows] = grid;
+			const [originX, originY] = getOriginCell(from, grid);
+
+			distance = Math.hypot((i % columns) - originX, Math.floor(i / columns) - originY);
+			maxDistance = Math.hypot(Math.max(originX, columns - 1 - originX), Math.max(originY, rows - 1 - originY));
+		} else {
+			const fromIndex = typeof from === 'number' ? from : getOriginIndex(from, total);
+
+			distance = Math.abs(fromIndex - i);
+			maxDistance = total;
+		}
+
+		let delay = duration * distance;
+
+		if (ease) {
+			const maxDelay = maxDistance * duration;
+			const easingFunction = easingDefinitionToFunction(ease);
+			delay = maxDelay ? easingFunction(delay / maxDelay) * maxDelay : 0;
+		}
+
+		return startDelay + delay;
+	};
+}
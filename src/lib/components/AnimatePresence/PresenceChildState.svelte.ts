@@ -0,0 +1,112 @@
+import type { PresenceContextProps } from '../../context/PresenceContext';
+import { popChild } from './pop-child';
+import type { PresenceKey } from './types';
+
+let id = 0;
+
+interface PresenceChildOptions {
+	initial?: false;
+	getCustom: () => any;
+	onExitComplete: (key: PresenceKey) => void;
+	nonce?: string;
+}
+
+interface RegisteredChild {
+	isComplete: boolean;
+	instance?: () => Element | null;
+}
+
+/**
+ * The presence state of a single child rendered by `AnimatePresence`. It owns the
+ * `PresenceContext` provided to that child, and tracks every `motion` component
+ * within it that has registered an exit animation.
+ */
+export class PresenceChildState<T> {
+	readonly id = `presence-${id++}`;
+
+	readonly key: PresenceKey;
+
+	item: T = $state()!;
+
+	isPresent = $state(true);
+
+	readonly context: PresenceContextProps;
+
+	private presenceChildren = new Map<string | number, RegisteredChild>();
+
+	private releasePop?: VoidFunction;
+
+	private readonly nonce?: string;
+
+	constructor(key: PresenceKey, item: T, { initial, getCustom, onExitComplete, nonce }: PresenceChildOptions) {
+		this.key = key;
+		this.item = item;
+		this.nonce = nonce;
+
+		const child = this;
+
+		this.context = {
+			id: this.id,
+			initial,
+			get isPresent() {
+				return child.isPresent;
+			},
+			get custom() {
+				return child.isPresent ? undefined : getCustom();
+			},
+			register: (childId, instance) => {
+				this.presenceChildren.set(childId, { isComplete: false, instance });
+				return () => this.presenceChildren.delete(childId);
+			},
+			onExitComplete: (childId) => {
+				const registered = this.presenceChildren.get(childId);
+				if (registered) registered.isComplete = true;
+
+				if (this.isExitComplete) onExitComplete(this.key);
+			},
+		};
+	}
+
+	/**
+	 * Whether every registered child has finished its exit animation. This is
+	 * immediately `true` for children without any exit animations.
+	 */
+	get isExitComplete() {
+		for (const { isComplete } of this.presenceChildren.values()) {
+			if (!isComplete) return false;
+		}
+
+		return true;
+	}
+
+	setPresent(isPresent: boolean) {
+		if (this.isPresent === isPresent) return;
+
+		this.isPresent = isPresent;
+
+		if (isPresent) {
+			this.unpop();
+		} else {
+			this.presenceChildren.forEach((registered) => (registered.isComplete = false));
+		}
+	}
+
+	/**
+	 * Pop the outermost registered element out of the layout.
+	 */
+	pop() {
+		let root: Element | null = null;
+
+		for (const { instance } of this.presenceChildren.values()) {
+			const element = instance?.();
+			if (element && (!root || element.contains(root))) root = element;
+		}
+
+		this.releasePop = popChild(this.id, root, this.nonce);
+	}
+
+	unpop() {
+		this.releasePop?.();
+		this.releasePop = undefined;
+	}
+}
@@ -0,0 +1,53 @@
+interface Size {
+	width: number;
+	height: number;
+	top: number;
+	left: number;
+}
+
+/**
+ * Measure an exiting element and pin it with `position: absolute` at its
+ * current offset, so siblings can immediately take over its space in the layout.
+ *
+ * The styles are injected via a stylesheet rather than inline styles, as inline
+ * styles are owned by the element's `Visual` and would be overwritten on render.
+ *
+ * A `nonce` can be provided for the stylesheet, to satisfy a Content Security Policy.
+ *
+ * Returns a function that releases the element back into the document flow.
+ */
+export function popChild(id: string, element: Element | null, nonce?: string): VoidFunction | undefined {
+	if (!(element instanceof HTMLElement)) return;
+
+	const size: Size = {
+		width: element.offsetWidth,
+		height: element.offsetHeight,
+		top: element.offsetTop,
+		left: element.offsetLeft,
+	};
+
+	if (!size.width || !size.height) return;
+
+	element.dataset.motionPopId = id;
+
+	const style = document.createElement('style');
+	if (nonce) style.nonce = nonce;
+	document.head.appendChild(style);
+
+	if (style.sheet) {
+		style.sheet.insertRule(`
+          [data-motion-pop-id="${id}"] {
+            position: absolute !important;
+            width: ${size.width}px !important;
+            height: ${size.height}px !important;
+            top: ${size.top}px !important;
+            left: ${size.left}px !important;
+          }
+        `);
+	}
+
+	return () => {
+		document.head.removeChild(style);
+		delete element.dataset.motionPopId;
+	};
+}
@@ -0,0 +1,82 @@
+import type { Snippet } from 'svelte';
+
+/**
+ * @public
+ */
+export type PresenceKey = string | number;
+
+/**
+ * @public
+ */
+export interface AnimatePresenceProps<T = unknown> {
+	/**
+	 * The list of items to render. Items that are removed from this list are kept
+	 * rendered until all of their `motion` children have finished their `exit` animations.
+	 *
+	 * ```svelte
+	 * <AnimatePresence items={notifications} getKey={(n) => n.id}>
+	 *   {#snippet children(notification)}
+	 *     <motion.li exit={{ opacity: 0 }}>{notification.text}</motion.li>
+	 *   {/snippet}
+	 * </AnimatePresence>
+	 * ```
+	 */
+	items?: T[];
+
+	/**
+	 * Returns a unique, stable key for an item in `items`. Defaults to `item.key`,
+	 * falling back to the item itself for primitive values.
+	 */
+	getKey?: (item: T) => PresenceKey;
+
+	/**
+	 * Toggles a single child in and out of the tree. Use this instead of `items`
+	 * when `AnimatePresence` wraps a single conditionally rendered child.
+	 *
+	 * ```svelte
+	 * <AnimatePresence show={isVisible}>
+	 *   <motion.div exit={{ opacity: 0 }} />
+	 * </AnimatePresence>
+	 * ```
+	 */
+	show?: boolean;
+
+	children: Snippet<[T]>;
+
+	/**
+	 * By passing `initial={false}`, `AnimatePresence` will disable any initial animations on children
+	 * that are present when the component is first rendered.
+	 *
+	 * @public
+	 */
+	initial?: boolean;
+
+	/**
+	 * When a component is removed, there's no longer a chance to update its props. So if a component's `exit`
+	 * prop is defined as a dynamic variant and you want to pass a new `custom` prop, you can do so via `AnimatePresence`.
+	 * This will ensure all leaving components animate using the latest data.
+	 *
+	 * @public
+	 */
+	custom?: any;
+
+	/**
+	 * Fires when all exiting nodes have completed animating out.
+	 *
+	 * @public
+	 */
+	onExitComplete?: () => void;
+
+	/**
+	 * Determines how to handle entering and exiting elements.
+	 *
+	 * - `"sync"`: Default. Elements animate in and out as soon as they're added/removed.
+	 * - `"popLayout"`: Exiting elements are "popped" from the page layout, allowing sibling
+	 *      elements to immediately occupy their new layouts.
+	 * - `"wait"`: Only renders one component at a time. Wait for the exiting component to animate out
+	 *      before animating the next component in.
+	 *
+	 * @public
+	 */
+	mode?: 'sync' | 'popLayout' | 'wait';
+}
@@ -0,0 +1,65 @@
+import { PresenceContext, createPresenceId } from '../../context/PresenceContext';
+
+export interface Presence {
+	readonly isPresent: boolean;
+	safeToRemove: VoidFunction | null;
+}
+
+/**
+ * When a component is the child of `AnimatePresence`, it can use `usePresence`
+ * to access information about whether it's still present in the tree.
+ *
+ * ```svelte
+ * <script>
+ *   const presence = usePresence()
+ *
+ *   $effect(() => {
+ *     if (!presence.isPresent) setTimeout(presence.safeToRemove, 1000)
+ *   })
+ * </script>
+ * ```
+ *
+ * If `isPresent` is `false`, it means that a component has been removed the tree, but
+ * `AnimatePresence` won't really remove it until `safeToRemove` has been called.
+ *
+ * @public
+ */
+export function usePresence(subscribe = true): Presence {
+	const context = PresenceContext.getOr(null);
+	const presenceId = createPresenceId();
+
+	$effect(() => {
+		if (subscribe && context) return context.register(presenceId);
+	});
+
+	return {
+		get isPresent() {
+			return context === null || context.isPresent || !context.onExitComplete;
+		},
+		safeToRemove: context?.onExitComplete ? () => subscribe && context.onExitComplete?.(presenceId) : null,
+	};
+}
+
+/**
+ * Similar to `usePresence`, except `useIsPresent` simply returns whether or not the component is present.
+ * There is no `safeToRemove` function.
+ *
+ * ```svelte
+ * <script>
+ *   const isPresent = useIsPresent()
+ * </script>
+ *
+ * {#if !isPresent.current}<p>Removing...</p>{/if}
+ * ```
+ *
+ * @public
+ */
+export function useIsPresent() {
+	const context = PresenceContext.getOr(null);
+
+	return {
+		get current() {
+			return context === null ? true : context.isPresent;
+		},
+	};
+}
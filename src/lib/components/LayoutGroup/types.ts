@@ -0,0 +1,21 @@
+import type { Snippet } from 'svelte';
+
+/**
+ * @public
+ */
+export interface LayoutGroupProps {
+	/**
+	 * Namespaces the `layoutId` of every `motion` component within this group, so
+	 * that the same `layoutId` can be reused by separate groups without them
+	 * animating between one another.
+	 */
+	id?: string;
+
+	/**
+	 * Whether to inherit the `id` and node group of an enclosing `LayoutGroup`.
+	 * Set to `"id"` or `"group"` to inherit only one of them. Defaults to `true`.
+	 */
+	inherit?: boolean | 'id' | 'group';
+
+	children: Snippet;
+}
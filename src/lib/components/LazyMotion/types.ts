@@ -0,0 +1,68 @@
+import type { Snippet } from 'svelte';
+import type { FeaturePackages } from '../../motion/features/types';
+
+/**
+ * @public
+ */
+export type FeatureBundle = FeaturePackages;
+
+/**
+ * @public
+ */
+export type LazyFeatureBundle = () => Promise<FeatureBundle>;
+
+/**
+ * @public
+ */
+export interface LazyProps {
+	children: Snippet;
+
+	/**
+	 * Can be used to provide a feature bundle synchronously or asynchronously.
+	 *
+	 * ```svelte
+	 * <LazyMotion features={domAnimation}>
+	 *   <m.div animate={{ scale: 2 }} />
+	 * </LazyMotion>
+	 * ```
+	 *
+	 * Asynchronous bundles are loaded once `LazyMotion` has mounted, so they can be
+	 * split out of the initial bundle with a dynamic `import()`:
+	 *
+	 * ```js
+	 * // features.js
+	 * export { domAnimation as default } from "$lib"
+	 * ```
+	 *
+	 * ```svelte
+	 * <LazyMotion features={() => import("./features.js").then((res) => res.default)}>
+	 *   <m.div animate={{ scale: 2 }} />
+	 * </LazyMotion>
+	 * ```
+	 *
+	 * If the import fails, a warning is logged and the components within are left
+	 * without features.
+	 *
+	 * Either way, `features` is only read when `LazyMotion` is created, so changing
+	 * it afterwards has no effect.
+	 *
+	 * @public
+	 */
+	features: FeatureBundle | LazyFeatureBundle;
+
+	/**
+	 * If `true`, will throw an error if a `motion` component renders within
+	 * a `LazyMotion` component.
+	 *
+	 * ```svelte
+	 * <!-- This component will throw an error that explains using a motion component -->
+	 * <!-- instead of the m component will break the benefits of code-splitting. -->
+	 * <LazyMotion features={domAnimation} strict>
+	 *   <motion.div />
+	 * </LazyMotion>
+	 * ```
+	 *
+	 * @public
+	 */
+	strict?: boolean;
+}
@@ -0,0 +1,9 @@
+import type { Snippet } from 'svelte';
+import type { MotionConfigContextProps } from '../../context/MotionConfigContext';
+
+/**
+ * @public
+ */
+export interface MotionConfigProps extends MotionConfigContextProps {
+	children: Snippet;
+}
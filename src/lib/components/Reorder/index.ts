@@ -0,0 +1,7 @@
+import Group from './Group.svelte';
+import Item from './Item.svelte';
+
+export const Reorder = {
+	Group,
+	Item,
+};
@@ -0,0 +1,93 @@
+import type { Snippet } from 'svelte';
+import type { Axis, Box } from '../../projection/geometry/types';
+import type { MotionProps } from '../../motion/types';
+
+export interface ReorderContextProps<T> {
+	axis: 'x' | 'y';
+	registerItem: (item: T, layout: Box) => void;
+	updateOrder: (item: T, offset: number, velocity: number) => void;
+}
+
+export interface ItemData<T> {
+	value: T;
+	layout: Axis;
+}
+
+/**
+ * @public
+ */
+export interface ReorderGroupProps<V> extends Omit<MotionProps, 'values'> {
+	/**
+	 * The element to render the group as. Defaults to `"ul"`.
+	 */
+	as?: string;
+
+	/**
+	 * The axis to reorder along. By default, items will be draggable on this axis.
+	 * To make draggable on both axes, set `drag={true}` on `Reorder.Item`.
+	 *
+	 * @public
+	 */
+	axis?: 'x' | 'y';
+
+	/**
+	 * A callback to fire with the new value order. For instance, if the values
+	 * are provided as a state from `$state`, this could be used to update them.
+	 *
+	 * ```svelte
+	 * <Reorder.Group values={items} onReorder={(order) => (items = order)}>
+	 * ```
+	 *
+	 * @public
+	 */
+	onReorder?: (newOrder: V[]) => void;
+
+	/**
+	 * The latest values state. Can be bound with `bind:values`, in which case
+	 * it's updated with the new order whenever the items are reordered.
+	 *
+	 * ```svelte
+	 * <Reorder.Group bind:values={items}>
+	 *   {#each items as item (item)}
+	 *     <Reorder.Item value={item}>{item}</Reorder.Item>
+	 *   {/each}
+	 * </Reorder.Group>
+	 * ```
+	 *
+	 * @public
+	 */
+	values: V[];
+
+	children?: Snippet;
+
+	[key: string]: any;
+}
+
+/**
+ * @public
+ */
+export interface ReorderItemProps<V> extends MotionProps {
+	/**
+	 * The element to render the item as. Defaults to `"li"`.
+	 */
+	as?: string;
+
+	/**
+	 * The value in the list that this component represents.
+	 *
+	 * @public
+	 */
+	value: V;
+
+	/**
+	 * A subset of layout options primarily used to disable layout="size"
+	 *
+	 * @public
+	 * @default true
+	 */
+	layout?: true | 'position';
+
+	children?: Snippet;
+
+	[key: string]: any;
+}
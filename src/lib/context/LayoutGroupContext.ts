@@ -0,0 +1,16 @@
+import { Context } from 'runed';
+import type { NodeGroup } from '../projection/node/group';
+
+/**
+ * @public
+ */
+export interface LayoutGroupContextProps {
+	id?: string;
+	group?: NodeGroup;
+	forceRender?: VoidFunction;
+}
+
+/**
+ * @public
+ */
+export const LayoutGroupContext = new Context<LayoutGroupContextProps>('LayoutGroupContext');
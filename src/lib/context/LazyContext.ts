@@ -0,0 +1,23 @@
+import { Context } from 'runed';
+
+/**
+ * @public
+ */
+export interface LazyContextProps {
+	strict: boolean;
+
+	/**
+	 * Whether the features provided to the closest `LazyMotion` have loaded.
+	 */
+	readonly isLoaded: boolean;
+}
+
+export const defaultLazyContext: LazyContextProps = {
+	strict: false,
+	isLoaded: true,
+};
+
+/**
+ * @public
+ */
+export const LazyContext = new Context<LazyContextProps>('LazyContext');
@@ -0,0 +1,73 @@
+import { Context } from 'runed';
+import type { Transition } from '../types';
+import type { ReducedMotionOverride } from '../utils/reduced-motion/policy';
+
+export type ReducedMotionConfig = 'always' | 'never' | 'user';
+
+/**
+ * @public
+ */
+export interface MotionConfigContextProps {
+	/**
+	 * Determines whether this is a static context ie the Framer canvas. If so,
+	 * it'll disable all dynamic functionality.
+	 */
+	isStatic?: boolean;
+
+	/**
+	 * Defines a new default transition for the entire tree.
+	 *
+	 * @public
+	 */
+	transition?: Transition;
+
+	/**
+	 * If true, will respect the device prefersReducedMotion setting by switching
+	 * transform and layout animations off.
+	 *
+	 * @public
+	 */
+	reducedMotion?: ReducedMotionConfig;
+
+	/**
+	 * Decide, per value, whether it should be set instantly when reduced motion is
+	 * preferred. By default transforms and layout changes are, while values like
+	 * opacity and colour continue to animate.
+	 *
+	 * ```svelte
+	 * <MotionConfig
+	 *   reducedMotion="user"
+	 *   reducedMotionOverride={(key, shouldReduce) => key === "scale" ? false : shouldReduce}
+	 * >
+	 * ```
+	 *
+	 * @public
+	 */
+	reducedMotionOverride?: ReducedMotionOverride;
+
+	/**
+	 * Skip every animation in the tree, setting values to their targets immediately.
+	 *
+	 * @public
+	 */
+	skipAnimations?: boolean;
+
+	/**
+	 * A custom `nonce` attribute used when wanting to enforce a Content Security Policy (CSP).
+	 * For more details see:
+	 * https://developer.mozilla.org/en-US/docs/Web/HTML/Global_attributes/nonce#style_attributes
+	 *
+	 * @public
+	 */
+	nonce?: string;
+}
+
+export const defaultMotionConfig: MotionConfigContextProps = {
+	isStatic: false,
+	reducedMotion: 'never',
+};
+
+/**
+ * @public
+ */
+export const MotionConfigContext = new Context<MotionConfigContextProps>('MotionConfigContext');
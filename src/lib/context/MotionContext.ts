@@ -0,0 +1,34 @@
+import { Context } from 'runed';
+import type { Visual } from '../render/Visual.svelte';
+import type { MotionProps } from '../motion/types';
+import { isControllingVariants } from '../render/utils/is-controlling-variants';
+import { isVariantLabel } from '../render/utils/is-variant-label';
+
+export interface MotionContextProps<Instance = unknown> {
+	visual?: Visual<Instance>;
+	initial?: false | string | string[];
+	animate?: string | string[];
+}
+
+/**
+ * Provides the closest `motion` component's `Visual` to its descendants, so
+ * they can build trees of visuals (for instance, for layout projection), along
+ * with the variant labels they inherit from the closest component controlling variants.
+ */
+export const MotionContext = new Context<MotionContextProps>('MotionContext');
+
+export function getCurrentTreeVariants(
+	props: MotionProps,
+	context: MotionContextProps
+): Pick<MotionContextProps, 'initial' | 'animate'> {
+	if (isControllingVariants(props)) {
+		const { initial, animate } = props;
+
+		return {
+			initial: initial === false || isVariantLabel(initial) ? (initial as MotionContextProps['initial']) : undefined,
+			animate: isVariantLabel(animate) ? animate : undefined,
+		};
+	}
+
+	return props.inherit !== false ? context : {};
+}
@@ -0,0 +1,29 @@
+import { Context } from 'runed';
+import type { VariantLabels } from '../motion/types';
+
+/**
+ * @public
+ */
+export interface PresenceContextProps {
+	id: string;
+	isPresent: boolean;
+	register: (id: string | number, instance?: () => Element | null) => VoidFunction;
+	onExitComplete?: (id: string | number) => void;
+	initial?: false | VariantLabels;
+	custom?: any;
+}
+
+/**
+ * @public
+ */
+export const PresenceContext = new Context<PresenceContextProps | null>('PresenceContext');
+
+let presenceId = 0;
+
+/**
+ * Children of the same presence context register under these ids, so they must
+ * be unique across `usePresence` consumers and `motion` components alike.
+ */
+export function createPresenceId() {
+	return presenceId++;
+}
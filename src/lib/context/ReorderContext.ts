@@ -0,0 +1,7 @@
+import { Context } from 'runed';
+import type { ReorderContextProps } from '../components/Reorder/types';
+
+/**
+ * @public
+ */
+export const ReorderContext = new Context<ReorderContextProps<any> | null>('ReorderContext');
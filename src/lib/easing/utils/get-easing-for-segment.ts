@@ -0,0 +1,7 @@
+import { wrap } from '../../utils/wrap';
+import type { Easing } from '../types';
+import { isEasingArray } from './is-easing-array';
+
+export function getEasingForSegment(easing: Easing | Easing[], i: number): Easing {
+	return isEasingArray(easing) ? easing[wrap(0, easing.length, i)] : easing;
+}
@@ -6,5 +6,5 @@ export function addDomEvent(
 ) {
 	target.addEventListener(eventName, handler as EventListener, options);
 
-	return () => target.removeEventListener(eventName, handler as EventListener);
+	return () => target.removeEventListener(eventName, handler as EventListener, options);
 }
\ No newline at end of file
@@ -0,0 +1,640 @@
+import { animateMotionValue } from '../../animation/interfaces/motion-value';
+import type { Transition } from '../../animation/types';
+import { addDomEvent } from '../../events/add-dom-event';
+import { addPointerEvent } from '../../events/add-pointer-event';
+import { extractEventInfo } from '../../events/event-info';
+import { frame } from '../../frameloop';
+import { convertBoundingBoxToBox, convertBoxToBoundingBox } from '../../projection/geometry/conversion';
+import { translateAxis } from '../../projection/geometry/delta-apply';
+import { calcLength } from '../../projection/geometry/delta-calc';
+import type { Axis, Box, Point } from '../../projection/geometry/types';
+import { eachAxis } from '../../projection/utils/each-axis';
+import { measurePageBox } from '../../projection/utils/measure';
+import type { Visual } from '../../render/Visual.svelte';
+import { invariant } from '../../utils/errors';
+import { getContextWindow } from '../../utils/get-context-window';
+import { isRefObject } from '../../utils/is-ref-object';
+import type { RefObject } from '../../utils/safe-react-types';
+import { mixNumber } from '../../utils/mix/number';
+import type { LayoutUpdateData } from '../../projection/node/types';
+import { noop } from '../../utils/noop';
+import { percent } from '../../value/types/numbers/units';
+import { addValueToWillChange } from '../../value/use-will-change/add-will-change';
+import { PanSession } from '../pan/PanSession';
+import type { PanInfo } from '../pan/types';
+import type { DragDirection, ResolvedConstraints, ResolvedElastic } from './types';
+import {
+	applyConstraints,
+	calcOrigin,
+	calcRelativeConstraints,
+	calcViewportConstraints,
+	defaultElastic,
+	resolveDragElastic,
+} from './utils/constraints';
+import { getGlobalLock, type Lock } from './utils/lock';
+
+export const elementDragControls = new WeakMap<Visual<any>, VisualElementDragControls>();
+
+export interface DragControlOptions {
+	snapToCursor?: boolean;
+	cursorProgress?: Point;
+}
+
+export class VisualElementDragControls {
+	private visualElement: Visual<HTMLElement>;
+
+	private panSession?: PanSession;
+
+	private openGlobalLock: Lock | null = null;
+
+	isDragging = false;
+
+	private currentDirection: DragDirection | null = null;
+
+	private originPoint: Point = { x: 0, y: 0 };
+
+	/**
+	 * The permitted boundaries of travel, in pixels.
+	 */
+	private constraints: ResolvedConstraints | false = false;
+
+	private hasMutatedConstraints = false;
+
+	private removeLayoutUpdateListener: Function = noop;
+
+	/**
+	 * The per-axis resolved elastic values.
+	 */
+	private elastic: ResolvedElastic = resolveDragElastic();
+
+	constructor(visualElement: Visual<HTMLElement>) {
+		this.visualElement = visualElement;
+	}
+
+	start(originEvent: PointerEvent, { snapToCursor = false }: DragControlOptions = {}) {
+		/**
+		 * Don't start dragging if this component is exiting
+		 */
+		const { presenceContext } = this.visualElement;
+		if (presenceContext && presenceContext.isPresent === false) return;
+
+		const onSessionStart = (event: PointerEvent) => {
+			const { dragSnapToOrigin } = this.getProps();
+
+			// Stop or pause any animations on both axis values immediately. This allows the user to throw and catch
+			// the component.
+			dragSnapToOrigin ? this.pauseAnimation() : this.stopAnimation();
+
+			if (snapToCursor) {
+				this.snapToCursor(extractEventInfo(event, 'page').point);
+			}
+		};
+
+		const onStart = (event: PointerEvent, info: PanInfo) => {
+			// Attempt to grab the global drag gesture lock - maybe make this part of PanSession
+			const { drag, dragPropagation, onDragStart } = this.getProps();
+
+			if (drag && !dragPropagation) {
+				if (this.openGlobalLock) this.openGlobalLock();
+
+				this.openGlobalLock = getGlobalLock(drag);
+
+				// If we don 't have the lock, don't start dragging
+				if (!this.openGlobalLock) return;
+			}
+
+			this.isDragging = true;
+			this.currentDirection = null;
+
+			this.resolveConstraints();
+
+			/**
+			 * While dragging, the element follows the pointer rather than animating
+			 * to any new layout, so track layout changes to keep it under the pointer.
+			 */
+			const { projection } = this.visualElement;
+			if (projection) {
+				projection.isAnimationBlocked = true;
+				this.removeLayoutUpdateListener();
+				this.removeLayoutUpdateListener = projection.addEventListener('didUpdate', this.onLayoutUpdate);
+			}
+
+			/**
+			 * Record gesture origin
+			 */
+			eachAxis((axis) => {
+				let current = this.getAxisMotionValue(axis).get() || 0;
+
+				/**
+				 * If the MotionValue is a percentage value convert to px
+				 */
+				if (percent.test(current)) {
+					const layout = this.measureLayout();
+
+					if (layout) {
+						const length = calcLength(layout[axis]);
+						current = length * (Number.parseFloat(current) / 100);
+					}
+				}
+
+				this.originPoint[axis] = current;
+			});
+
+			// Fire onDragStart event
+			if (onDragStart) {
+				frame.postRender(() => onDragStart(event, info));
+			}
+
+			addValueToWillChange(this.visualElement, 'transform');
+
+			const { animationState } = this.visualElement;
+			animationState && animationState.setActive('whileDrag', true);
+		};
+
+		const onMove = (event: PointerEvent, info: PanInfo) => {
+			// latestPointerEvent = event
+			const { dragPropagation, dragDirectionLock, onDirectionLock, onDrag } = this.getProps();
+
+			// If we didn't successfully receive the gesture lock, early return.
+			if (!dragPropagation && !this.openGlobalLock) return;
+
+			const { offset } = info;
+
+			// Attempt to detect drag direction if directionLock is true
+			if (dragDirectionLock && this.currentDirection === null) {
+				this.currentDirection = getCurrentDirection(offset);
+
+				// If we've successfully set a direction, notify listener
+				if (this.currentDirection !== null) {
+					onDirectionLock && onDirectionLock(this.currentDirection);
+				}
+
+				return;
+			}
+
+			// Update each point with the latest position
+			this.updateAxis('x', offset);
+			this.updateAxis('y', offset);
+
+			/**
+			 * Ideally we would leave the renderer to fire naturally at the end of
+			 * this frame but if the element is about to change layout as the result
+			 * of a re-render we want to ensure the browser can read the latest
+			 * bounding box to ensure the pointer and element don't fall out of sync.
+			 */
+			this.visualElement.render();
+
+			/**
+			 * This must fire after the render call as it might trigger a state
+			 * change which itself might trigger a layout update.
+			 */
+			onDrag && onDrag(event, info);
+		};
+
+		const onSessionEnd = (event: PointerEvent, info: PanInfo) => this.stop(event, info);
+
+		const resumeAnimation = () =>
+			eachAxis((axis) => this.getAnimationState(axis) === 'paused' && this.getAxisMotionValue(axis).animation?.play());
+
+		const { dragSnapToOrigin } = this.getProps();
+
+		this.panSession = new PanSession(
+			originEvent,
+			{
+				onSessionStart,
+				onStart,
+				onMove,
+				onSessionEnd,
+				resumeAnimation,
+			},
+			{
+				dragSnapToOrigin,
+				contextWindow: getContextWindow(this.visualElement),
+			}
+		);
+	}
+
+	private stop(event: PointerEvent, info: PanInfo) {
+		const isDragging = this.isDragging;
+		this.cancel();
+
+		if (!isDragging) return;
+
+		const { velocity } = info;
+		this.startAnimation(velocity);
+
+		const { onDragEnd } = this.getProps();
+		if (onDragEnd) {
+			frame.postRender(() => onDragEnd(event, info));
+		}
+	}
+
+	private cancel() {
+		this.isDragging = false;
+
+		this.panSession && this.panSession.end();
+		this.panSession = undefined;
+
+		const { dragPropagation } = this.getProps();
+
+		if (!dragPropagation && this.openGlobalLock) {
+			this.openGlobalLock();
+			this.openGlobalLock = null;
+		}
+
+		const { projection, animationState } = this.visualElement;
+		if (projection) projection.isAnimationBlocked = false;
+
+		this.removeLayoutUpdateListener();
+		this.removeLayoutUpdateListener = noop;
+
+		animationState && animationState.setActive('whileDrag', false);
+	}
+
+	/**
+	 * If the layout changes mid-drag, for instance when a `Reorder.Item` swaps
+	 * places with a sibling, offset the drag by the same distance so the element
+	 * stays where it is on screen.
+	 */
+	private onLayoutUpdate = ({ delta, hasLayoutChanged }: LayoutUpdateData) => {
+		if (!this.isDragging || !hasLayoutChanged) return;
+
+		eachAxis((axis) => {
+			const axisValue = this.getAxisMotionValue(axis);
+			const current = axisValue.get();
+			if (typeof current !== 'number') return;
+
+			this.originPoint[axis] += delta[axis].translate;
+			axisValue.set(current + delta[axis].translate);
+		});
+
+		this.visualElement.render();
+	};
+
+	private updateAxis(axis: DragDirection, offset?: Point) {
+		const { drag } = this.getProps();
+
+		// If we're not dragging this axis, do an early return.
+		if (!offset || !shouldDrag(axis, drag, this.currentDirection)) return;
+
+		const axisValue = this.getAxisMotionValue(axis);
+		let next = this.originPoint[axis] + offset[axis];
+
+		// Apply constraints
+		if (this.constraints && this.constraints[axis]) {
+			next = applyConstraints(next, this.constraints[axis], this.elastic[axis]);
+		}
+
+		axisValue.set(next);
+	}
+
+	private resolveConstraints() {
+		const { dragConstraints, dragElastic } = this.getProps();
+
+		if (dragConstraints && isConstraintsElement(dragConstraints)) {
+			/**
+			 * The element, or its constraints, might have moved since they were last
+			 * measured, so measure them again at the start of every gesture.
+			 */
+			this.constraints = this.resolveRefConstraints();
+		} else {
+			this.constraints = dragConstraints ? calcRelativeConstraints(dragConstraints) : false;
+		}
+
+		this.elastic = resolveDragElastic(dragElastic);
+	}
+
+	private resolveRefConstraints(layout = this.measureLayout()) {
+		const { dragConstraints: constraints, onMeasureDragConstraints } = this.getProps();
+
+		if (!constraints || !isConstraintsElement(constraints)) return false;
+
+		const constraintsElement = isRefObject<Element | null>(constraints) ? constraints.current : (constraints as Element);
+
+		invariant(
+			constraintsElement !== null,
+			"If `dragConstraints` is set as a ref object, that ref must be bound to another element with `bind:this`."
+		);
+
+		if (!constraintsElement || !layout) return false;
+
+		const constraintsBox = measurePageBox(constraintsElement);
+
+		let measuredConstraints = calcViewportConstraints(layout, constraintsBox);
+
+		/**
+		 * If there's an onMeasureDragConstraints listener we call it and
+		 * if different constraints are returned, set constraints to that
+		 */
+		if (onMeasureDragConstraints) {
+			const userConstraints = onMeasureDragConstraints(convertBoxToBoundingBox(measuredConstraints));
+
+			this.hasMutatedConstraints = !!userConstraints;
+
+			if (userConstraints) {
+				measuredConstraints = convertBoundingBoxToBox(userConstraints);
+			}
+		}
+
+		return measuredConstraints;
+	}
+
+	/**
+	 * Measure the element's page box as it would be laid out without
+	 * the translation applied by dragging.
+	 */
+	private measureLayout(): Box | undefined {
+		const element = this.visualElement.current;
+		if (!element) return;
+
+		const layout = measurePageBox(element);
+
+		eachAxis((axis) => {
+			const current = this.getAxisMotionValue(axis).get();
+			if (typeof current === 'number') translateAxis(layout[axis], -current);
+		});
+
+		return layout;
+	}
+
+	private startAnimation(velocity: Point) {
+		const { drag, dragMomentum, dragElastic, dragTransition, dragSnapToOrigin, onDragTransitionEnd } =
+			this.getProps();
+
+		const constraints: Partial<ResolvedConstraints> = this.constraints || {};
+
+		const momentumAnimations = eachAxis((axis) => {
+			if (!shouldDrag(axis, drag, this.currentDirection)) {
+				return;
+			}
+
+			let transition = (constraints && constraints[axis]) || {};
+
+			if (dragSnapToOrigin) transition = { min: 0, max: 0 };
+
+			/**
+			 * Overdamp the boundary spring if `dragElastic` is disabled. There's still a frame
+			 * of spring animations so we should look into adding a disable spring option to `inertia`.
+			 * We could do something here where we affect the `bounceStiffness` and `bounceDamping`
+			 * using the value of `dragElastic`.
+			 */
+			const bounceStiffness = dragElastic ? 200 : 1000000;
+			const bounceDamping = dragElastic ? 40 : 10000000;
+
+			const inertia: Transition = {
+				type: 'inertia',
+				velocity: dragMomentum ? velocity[axis] : 0,
+				bounceStiffness,
+				bounceDamping,
+				timeConstant: 750,
+				restDelta: 1,
+				restSpeed: 10,
+				...dragTransition,
+				...transition,
+			};
+
+			// If we're not animating on an externally-provided `MotionValue` we can use the
+			// component's animation controls which will handle interactions with whileHover (etc),
+			// otherwise we just have to animate the `MotionValue` itself.
+			return this.startAxisValueAnimation(axis, inertia);
+		});
+
+		// Run all animations and then resolve the new drag constraints.
+		return Promise.all(momentumAnimations).then(onDragTransitionEnd);
+	}
+
+	private startAxisValueAnimation(axis: DragDirection, transition: Transition) {
+		const axisValue = this.getAxisMotionValue(axis);
+
+		addValueToWillChange(this.visualElement, axis);
+
+		return axisValue.start(animateMotionValue(axis, axisValue, 0, transition, this.visualElement, false));
+	}
+
+	private stopAnimation() {
+		eachAxis((axis) => this.getAxisMotionValue(axis).stop());
+	}
+
+	private pauseAnimation() {
+		eachAxis((axis) => this.getAxisMotionValue(axis).animation?.pause());
+	}
+
+	private getAnimationState(axis: DragDirection) {
+		return this.getAxisMotionValue(axis).animation?.state;
+	}
+
+	/**
+	 * Drag works differently depending on which props are provided.
+	 *
+	 * - If _dragX and _dragY are provided, we output the gesture delta directly to those motion values.
+	 * - Otherwise, we apply the delta to the x/y motion values.
+	 */
+	private getAxisMotionValue(axis: DragDirection) {
+		const dragKey = `_drag${axis.toUpperCase()}` as `_drag${Uppercase<DragDirection>}`;
+		const props = this.visualElement.getProps();
+		const externalMotionValue = props[dragKey];
+
+		return externalMotionValue
+			? externalMotionValue
+			: this.visualElement.getValue(
+					axis,
+					(props.initial && typeof props.initial === 'object' && !Array.isArray(props.initial)
+						? (props.initial[axis] as number | undefined)
+						: undefined) || 0
+				);
+	}
+
+	private snapToCursor(point: Point) {
+		const layout = this.measureLayout();
+		if (!layout) return;
+
+		eachAxis((axis) => {
+			const { drag } = this.getProps();
+
+			// If we're not dragging this axis, do an early return.
+			if (!shouldDrag(axis, drag, this.currentDirection)) return;
+
+			const axisValue = this.getAxisMotionValue(axis);
+			const { min, max } = layout[axis];
+			axisValue.set(point[axis] - mixNumber(min, max, 0.5));
+		});
+	}
+
+	/**
+	 * When the viewport resizes we want to check if the measured constraints
+	 * have changed and, if so, reposition the element within those new constraints
+	 * relative to where it was before the resize.
+	 */
+	scalePositionWithinConstraints() {
+		if (!this.visualElement.current) return;
+
+		const { drag, dragConstraints } = this.getProps();
+
+		if (!isConstraintsElement(dragConstraints) || !this.constraints || this.hasMutatedConstraints) return;
+
+		/**
+		 * Stop current animations as there can be visual glitching if we try to do
+		 * this mid-animation
+		 */
+		this.stopAnimation();
+
+		/**
+		 * Record the relative position of the dragged element relative to the
+		 * constraints box and save as a progress value.
+		 */
+		const boxProgress = { x: 0, y: 0 };
+		eachAxis((axis) => {
+			const axisValue = this.getAxisMotionValue(axis);
+
+			if (axisValue && this.constraints !== false) {
+				const latest = axisValue.get();
+				boxProgress[axis] = calcOrigin({ min: latest, max: latest }, this.constraints[axis] as Axis);
+			}
+		});
+
+		this.constraints = this.resolveRefConstraints();
+
+		/**
+		 * For each axis, calculate the current progress of the layout axis
+		 * within the new constraints.
+		 */
+		eachAxis((axis) => {
+			if (!shouldDrag(axis, drag, null) || !this.constraints) return;
+
+			// Calculate a new transform based on the previous box progress
+			const axisValue = this.getAxisMotionValue(axis);
+			const { min, max } = this.constraints[axis] as Axis;
+			axisValue.set(mixNumber(min, max, boxProgress[axis]));
+		});
+	}
+
+	addListeners() {
+		if (!this.visualElement.current) return;
+
+		elementDragControls.set(this.visualElement, this);
+
+		const element = this.visualElement.current;
+
+		this.updateDragStyles();
+
+		/**
+		 * Attach a pointerdown event listener on this DOM element to initiate drag tracking.
+		 */
+		const stopPointerListener = addPointerEvent(element, 'pointerdown', (event) => {
+			const { drag, dragListener = true } = this.getProps();
+			drag && dragListener && this.start(event);
+		});
+
+		const stopResizeListener = addDomEvent(window, 'resize', () => this.scalePositionWithinConstraints());
+
+		/**
+		 * Measure ref constraints once the element has mounted, so they're
+		 * ready for the first drag gesture.
+		 */
+		frame.read(() => {
+			const { dragConstraints } = this.getProps();
+			if (isConstraintsElement(dragConstraints)) {
+				this.constraints = this.resolveRefConstraints();
+			}
+		});
+
+		/**
+		 * Layout changes can move the element or its constraints, so measure ref
+		 * constraints again whenever the element's layout is measured.
+		 */
+		const stopMeasureListener = this.visualElement.on('LayoutMeasure', (layout: Box) => {
+			const { dragConstraints } = this.getProps();
+			if (isConstraintsElement(dragConstraints)) {
+				this.constraints = this.resolveRefConstraints(layout);
+			}
+		});
+
+		return () => {
+			stopMeasureListener();
+			stopResizeListener();
+			stopPointerListener();
+			applyDragStyles(element, false);
+		};
+	}
+
+	/**
+	 * Apply the styles of a draggable element while it can be dragged with the pointer,
+	 * and remove them otherwise, like when it's only dragged with `dragControls`.
+	 */
+	updateDragStyles() {
+		const element = this.visualElement.current;
+		if (!element) return;
+
+		const { drag, dragListener = true } = this.getProps();
+		applyDragStyles(element, dragListener ? drag : false);
+	}
+
+	getProps() {
+		const props = this.visualElement.getProps();
+		const {
+			drag = false,
+			dragDirectionLock = false,
+			dragPropagation = false,
+			dragConstraints = false,
+			dragElastic = defaultElastic,
+			dragMomentum = true,
+		} = props;
+
+		return {
+			...props,
+			drag,
+			dragDirectionLock,
+			dragPropagation,
+			dragConstraints,
+			dragElastic,
+			dragMomentum,
+		};
+	}
+}
+
+/**
+ * Disable text selection and native browser panning/dragging on draggable
+ * elements, so pointer events aren't hijacked mid-gesture. Single-axis drags
+ * still allow the browser to scroll along the other axis.
+ */
+function applyDragStyles(element: HTMLElement, drag: boolean | DragDirection) {
+	if (!drag) {
+		element.removeAttribute('draggable');
+		element.style.userSelect = '';
+		element.style.webkitUserSelect = '';
+		element.style.touchAction = '';
+		return;
+	}
+
+	element.draggable = false;
+	element.style.userSelect = 'none';
+	element.style.webkitUserSelect = 'none';
+	element.style.touchAction = drag === true ? 'none' : `pan-${drag === 'x' ? 'y' : 'x'}`;
+}
+
+function isConstraintsElement(constraints: unknown): constraints is RefObject<Element> | Element {
+	return isRefObject(constraints) || (typeof Element !== 'undefined' && constraints instanceof Element);
+}
+
+function shouldDrag(direction: DragDirection, drag: boolean | DragDirection | undefined, currentDirection: null | DragDirection) {
+	return (drag === true || drag === direction) && (currentDirection === null || currentDirection === direction);
+}
+
+/**
+ * Based on an x/y offset determine the current drag direction. If both axis' offsets are lower
+ * than the provided threshold, return `null`.
+ *
+ * @param offset - The x/y offset from origin.
+ * @param lockThreshold - (Optional) - the minimum absolute offset before we can determine a drag direction.
+ */
+function getCurrentDirection(offset: Point, lockThreshold = 10): DragDirection | null {
+	let direction: DragDirection | null = null;
+
+	if (Math.abs(offset.y) > lockThreshold) {
+		direction = 'y';
+	} else if (Math.abs(offset.x) > lockThreshold) {
+		direction = 'x';
+	}
+
+	return direction;
+}
@@ -0,0 +1,296 @@
+import type { VariantLabels } from '../../motion/types';
+import type { Axis, BoundingBox } from '../../projection/geometry/types';
+import type { InertiaOptions } from '../../animation/types';
+import type { TargetAndTransition } from '../../types';
+import type { RefObject } from '../../utils/safe-react-types';
+import type { MotionValue } from '../../value';
+import type { PanInfo } from '../pan/types';
+import type { DragControls } from './use-drag-controls';
+
+export type DragDirection = 'x' | 'y';
+
+export type DragElastic = boolean | number | Partial<BoundingBox>;
+
+export interface ResolvedConstraints {
+	x: Partial<Axis>;
+	y: Partial<Axis>;
+}
+
+export interface AxisElastic {
+	min: number;
+	max: number;
+}
+
+export interface ResolvedElastic {
+	x: AxisElastic;
+	y: AxisElastic;
+}
+
+/**
+ * @public
+ */
+export interface DragHandlers {
+	/**
+	 * Callback function that fires when dragging starts.
+	 *
+	 * ```jsx
+	 * <motion.div
+	 *   drag
+	 *   onDragStart={
+	 *     (event, info) => console.log(info.point.x, info.point.y)
+	 *   }
+	 * />
+	 * ```
+	 *
+	 * @public
+	 */
+	onDragStart?(event: PointerEvent, info: PanInfo): void;
+
+	/**
+	 * Callback function that fires when dragging ends.
+	 *
+	 * ```jsx
+	 * <motion.div
+	 *   drag
+	 *   onDragEnd={
+	 *     (event, info) => console.log(info.velocity.x, info.velocity.y)
+	 *   }
+	 * />
+	 * ```
+	 *
+	 * @public
+	 */
+	onDragEnd?(event: PointerEvent, info: PanInfo): void;
+
+	/**
+	 * Callback function that fires when the component is dragged.
+	 *
+	 * ```jsx
+	 * <motion.div
+	 *   drag
+	 *   onDrag={
+	 *     (event, info) => console.log(info.point.x, info.point.y)
+	 *   }
+	 * />
+	 * ```
+	 *
+	 * @public
+	 */
+	onDrag?(event: PointerEvent, info: PanInfo): void;
+
+	/**
+	 * Callback function that fires a drag direction is determined.
+	 *
+	 * ```jsx
+	 * <motion.div
+	 *   drag
+	 *   dragDirectionLock
+	 *   onDirectionLock={axis => console.log(axis)}
+	 * />
+	 * ```
+	 *
+	 * @public
+	 */
+	onDirectionLock?(axis: DragDirection): void;
+
+	/**
+	 * Callback function that fires when drag momentum/bounce transition finishes.
+	 *
+	 * ```jsx
+	 * <motion.div
+	 *   drag
+	 *   onDragTransitionEnd={() => console.log('Drag transition complete')}
+	 * />
+	 * ```
+	 *
+	 * @public
+	 */
+	onDragTransitionEnd?(): void;
+}
+
+/**
+ * @public
+ */
+export interface DraggableProps extends DragHandlers {
+	/**
+	 * Enable dragging for this element. Set to `false` by default.
+	 * Set `true` to drag in both directions.
+	 * Set `"x"` or `"y"` to only drag in a specific direction.
+	 *
+	 * ```jsx
+	 * <motion.div drag="x" />
+	 * ```
+	 */
+	drag?: boolean | DragDirection;
+
+	/**
+	 * Properties or variant label to animate to while the drag gesture is recognised.
+	 *
+	 * ```jsx
+	 * <motion.div whileDrag={{ scale: 1.2 }} />
+	 * ```
+	 */
+	whileDrag?: VariantLabels | TargetAndTransition;
+
+	/**
+	 * If `true`, this will lock dragging to the initially-detected direction. Defaults to `false`.
+	 *
+	 * ```jsx
+	 * <motion.div drag dragDirectionLock />
+	 * ```
+	 */
+	dragDirectionLock?: boolean;
+
+	/**
+	 * Allows drag gesture propagation to child components. Set to `false` by
+	 * default.
+	 *
+	 * ```jsx
+	 * <motion.div drag="x" dragPropagation />
+	 * ```
+	 */
+	dragPropagation?: boolean;
+
+	/**
+	 * Applies constraints on the permitted draggable area.
+	 *
+	 * It can accept an object of optional `top`, `left`, `right`, and `bottom` values, measured in pixels.
+	 * This will define a distance the named edge of the draggable component.
+	 *
+	 * Alternatively, it can accept an element, or a ref object holding one, that the
+	 * draggable component is constrained within.
+	 *
+	 * ```svelte
+	 * <script>
+	 *   const constraints = { current: null }
+	 * </script>
+	 *
+	 * <motion.div drag="x" dragConstraints={{ left: 0, right: 300 }} />
+	 *
+	 * <div bind:this={constraints.current}>
+	 *   <motion.div drag dragConstraints={constraints} />
+	 * </div>
+	 * ```
+	 */
+	dragConstraints?: false | Partial<BoundingBox> | RefObject<Element> | Element;
+
+	/**
+	 * The degree of movement allowed outside constraints. 0 = no movement, 1 =
+	 * full movement.
+	 *
+	 * Set to `0.5` by default. Can also be set as `false` to disable movement.
+	 *
+	 * By passing an object of `top`/`right`/`bottom`/`left`, individual values can be set
+	 * per constraint. Any missing values will be set to `0`.
+	 *
+	 * ```jsx
+	 * <motion.div
+	 *   drag
+	 *   dragConstraints={{ left: 0, right: 300 }}
+	 *   dragElastic={0.2}
+	 * />
+	 * ```
+	 */
+	dragElastic?: DragElastic;
+
+	/**
+	 * Apply momentum from the pan gesture to the component when dragging
+	 * finishes. Set to `true` by default.
+	 *
+	 * ```jsx
+	 * <motion.div
+	 *   drag
+	 *   dragConstraints={{ left: 0, right: 300 }}
+	 *   dragMomentum={false}
+	 * />
+	 * ```
+	 */
+	dragMomentum?: boolean;
+
+	/**
+	 * Allows you to change dragging inertia parameters.
+	 * When releasing a draggable Frame, an animation with type `inertia` starts. The animation is based on your dragging velocity. This property allows you to customize it.
+	 * See {@link https://framer.com/api/animation/#inertia | Inertia} for all properties you can use.
+	 *
+	 * ```jsx
+	 * <motion.div
+	 *   drag
+	 *   dragTransition={{ bounceStiffness: 600, bounceDamping: 10 }}
+	 * />
+	 * ```
+	 */
+	dragTransition?: InertiaOptions;
+
+	/**
+	 * Usually, dragging is initiated by pressing down on a component and moving it. For some
+	 * use-cases, for instance clicking at an arbitrary point on a video scrubber, we
+	 * might want to initiate dragging from a different component than the draggable one.
+	 *
+	 * By creating a `dragControls` using the `useDragControls` hook, we can pass this into
+	 * the draggable component's `dragControls` prop. It exposes a `start` method
+	 * that can start dragging from pointer events on other components.
+	 *
+	 * ```svelte
+	 * <script>
+	 *   const dragControls = useDragControls()
+	 * </script>
+	 *
+	 * <div onpointerdown={(event) => dragControls.start(event, { snapToCursor: true })} />
+	 * <motion.div drag="x" {dragControls} />
+	 * ```
+	 */
+	dragControls?: DragControls;
+
+	/**
+	 * If true, element will snap back to its origin when dragging ends.
+	 *
+	 * Enabling this is the equivalent of setting all `dragConstraints` axes to `0`
+	 * with `dragElastic={1}`, but when used together `dragConstraints` can define
+	 * a wider draggable area and `dragSnapToOrigin` will ensure the element
+	 * animates back to its origin on release.
+	 */
+	dragSnapToOrigin?: boolean;
+
+	/**
+	 * By default, if `drag` is defined on a component then an event listener will be attached
+	 * to automatically initiate dragging when a user presses down on it.
+	 *
+	 * By setting `dragListener` to `false`, this event listener will not be created.
+	 *
+	 * ```jsx
+	 * <motion.div
+	 *   drag
+	 *   dragListener={false}
+	 *   {dragControls}
+	 * />
+	 * ```
+	 */
+	dragListener?: boolean;
+
+	/**
+	 * If `dragConstraints` is set to an element, this callback will be called with
+	 * the measured drag constraints, relative to the draggable element's origin.
+	 * Returning a new `BoundingBox` will override the measured constraints.
+	 *
+	 * @public
+	 */
+	onMeasureDragConstraints?: (constraints: BoundingBox) => BoundingBox | void;
+
+	/**
+	 * Usually, dragging applies updates to the element's own `x` and `y` values.
+	 * Passing MotionValues as _dragX and _dragY instead applies drag updates to these motion values.
+	 * This allows you to manually control how updates from a drag gesture on an element is applied.
+	 *
+	 * @public
+	 */
+	_dragX?: MotionValue<number>;
+
+	/**
+	 * Usually, dragging applies updates to the element's own `x` and `y` values.
+	 * Passing MotionValues as _dragX and _dragY instead applies drag updates to these motion values.
+	 * This allows you to manually control how updates from a drag gesture on an element is applied.
+	 *
+	 * @public
+	 */
+	_dragY?: MotionValue<number>;
+}
\ No newline at end of file
@@ -0,0 +1,107 @@
+import { calcLength } from '../../../projection/geometry/delta-calc';
+import type { Axis, BoundingBox, Box } from '../../../projection/geometry/types';
+import { clamp } from '../../../utils/clamp';
+import { mixNumber } from '../../../utils/mix/number';
+import { progress } from '../../../utils/progress';
+import type { AxisElastic, DragElastic, ResolvedConstraints, ResolvedElastic } from '../types';
+
+/**
+ * Apply constraints to a point. These constraints are both physical along an
+ * axis, and an elastic factor that determines how much to constrain the point
+ * by if it does lie outside the defined parameters.
+ */
+export function applyConstraints(point: number, { min, max }: Partial<Axis>, elastic?: AxisElastic): number {
+	if (min !== undefined && point < min) {
+		// If we have a min point defined, and this is outside of that, constrain
+		point = elastic ? mixNumber(min, point, elastic.min) : Math.max(point, min);
+	} else if (max !== undefined && point > max) {
+		// If we have a max point defined, and this is outside of that, constrain
+		point = elastic ? mixNumber(max, point, elastic.max) : Math.min(point, max);
+	}
+
+	return point;
+}
+
+/**
+ * Calculates constraints for an axis from a set of pixel offsets, ie
+ * `{ left: -100, right: 100 }`, relative to the element's origin.
+ */
+export function calcRelativeConstraints({ top, left, bottom, right }: Partial<BoundingBox>): ResolvedConstraints {
+	return {
+		x: { min: left, max: right },
+		y: { min: top, max: bottom },
+	};
+}
+
+/**
+ * Calculate viewport constraints when defined as another viewport-relative axis
+ */
+export function calcViewportAxisConstraints(layoutAxis: Axis, constraintsAxis: Axis) {
+	let min = constraintsAxis.min - layoutAxis.min;
+	let max = constraintsAxis.max - layoutAxis.max;
+
+	// If the constraints axis is actually smaller than the layout axis then we can
+	// flip the constraints
+	if (constraintsAxis.max - constraintsAxis.min < layoutAxis.max - layoutAxis.min) {
+		[min, max] = [max, min];
+	}
+
+	return { min, max };
+}
+
+/**
+ * Calculate viewport constraints when defined as another viewport-relative box
+ */
+export function calcViewportConstraints(layoutBox: Box, constraintsBox: Box) {
+	return {
+		x: calcViewportAxisConstraints(layoutBox.x, constraintsBox.x),
+		y: calcViewportAxisConstraints(layoutBox.y, constraintsBox.y),
+	};
+}
+
+/**
+ * Calculate a transform origin relative to the source axis, between 0-1, that results
+ * in an asthetically pleasing scale/transform needed to project from source to target.
+ */
+export function calcOrigin(source: Axis, target: Axis): number {
+	let origin = 0.5;
+	const sourceLength = calcLength(source);
+	const targetLength = calcLength(target);
+
+	if (targetLength > sourceLength) {
+		origin = progress(target.min, target.max - sourceLength, source.min);
+	} else if (sourceLength > targetLength) {
+		origin = progress(source.min, source.max - targetLength, target.min);
+	}
+
+	return clamp(0, 1, origin);
+}
+
+export const defaultElastic = 0.35;
+
+/**
+ * Accepts a dragElastic prop and returns resolved elastic values for each axis.
+ */
+export function resolveDragElastic(dragElastic: DragElastic = defaultElastic): ResolvedElastic {
+	if (dragElastic === false) {
+		dragElastic = 0;
+	} else if (dragElastic === true) {
+		dragElastic = defaultElastic;
+	}
+
+	return {
+		x: resolveAxisElastic(dragElastic, 'left', 'right'),
+		y: resolveAxisElastic(dragElastic, 'top', 'bottom'),
+	};
+}
+
+export function resolveAxisElastic(dragElastic: DragElastic, minLabel: string, maxLabel: string): AxisElastic {
+	return {
+		min: resolvePointElastic(dragElastic, minLabel),
+		max: resolvePointElastic(dragElastic, maxLabel),
+	};
+}
+
+export function resolvePointElastic(dragElastic: DragElastic, label: string): number {
+	return typeof dragElastic === 'number' ? dragElastic : dragElastic[label as keyof typeof dragElastic] || 0;
+}
\ No newline at end of file
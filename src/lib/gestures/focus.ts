@@ -0,0 +1,48 @@
+import { addDomEvent } from "../events/add-dom-event";
+import { Feature } from "../motion/features/Feature";
+import { noop } from "../utils/noop";
+import { pipe } from "../utils/pipe";
+
+export class FocusGesture extends Feature<Element> {
+	private isActive = false;
+
+	private removeListeners: Function = noop;
+
+	private onFocus() {
+		/**
+		 * Only animate when the browser would show a focus ring, so pointer
+		 * focus (ie clicking a button) doesn't trigger keyboard focus styles.
+		 */
+		let isFocusVisible = false;
+
+		try {
+			isFocusVisible = this.node.current!.matches(':focus-visible');
+		} catch (e) {
+			// Browsers without :focus-visible support throw on the selector
+			isFocusVisible = true;
+		}
+
+		if (!isFocusVisible || !this.node.animationState) return;
+
+		this.node.animationState.setActive('whileFocus', true);
+		this.isActive = true;
+	}
+
+	private onBlur() {
+		if (!this.isActive || !this.node.animationState) return;
+
+		this.node.animationState.setActive('whileFocus', false);
+		this.isActive = false;
+	}
+
+	mount() {
+		this.removeListeners = pipe(
+			addDomEvent(this.node.current!, 'focus', () => this.onFocus()),
+			addDomEvent(this.node.current!, 'blur', () => this.onBlur())
+		);
+	}
+
+	unmount() {
+		this.removeListeners();
+	}
+}
\ No newline at end of file
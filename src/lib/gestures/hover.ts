@@ -0,0 +1,48 @@
+import { addPointerEvent } from "../events/add-pointer-event";
+import type { EventInfo } from "../events/types";
+import { frame } from "../frameloop";
+import { Feature } from "../motion/features/Feature";
+import type { Visual } from "../render/Visual.svelte";
+import { noop } from "../utils/noop";
+import { pipe } from "../utils/pipe";
+import { isDragActive } from "./drag/utils/lock";
+
+function addHoverEvent(node: Visual<Element>, isActive: boolean) {
+	const eventName = isActive ? 'pointerenter' : 'pointerleave';
+	const callbackName = isActive ? 'onHoverStart' : 'onHoverEnd';
+
+	const handleEvent = (event: PointerEvent, info: EventInfo) => {
+		/**
+		 * Touch devices emulate hover on tap, so we ignore these events
+		 * along with any that fire while a drag gesture is active.
+		 */
+		if (event.pointerType === 'touch' || isDragActive()) return;
+
+		const props = node.getProps();
+
+		if (node.animationState && props.whileHover) {
+			node.animationState.setActive('whileHover', isActive);
+		}
+
+		const callback = props[callbackName];
+		if (callback) {
+			frame.postRender(() => callback(event, info));
+		}
+	};
+
+	return addPointerEvent(node.current!, eventName, handleEvent, {
+		passive: !node.getProps()[callbackName],
+	});
+}
+
+export class HoverGesture extends Feature<Element> {
+	private removeListeners: Function = noop;
+
+	mount() {
+		this.removeListeners = pipe(addHoverEvent(this.node, true), addHoverEvent(this.node, false));
+	}
+
+	unmount() {
+		this.removeListeners();
+	}
+}
\ No newline at end of file
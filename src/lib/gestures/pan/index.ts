@@ -0,0 +1,60 @@
+import { addPointerEvent } from '../../events/add-pointer-event';
+import { frame } from '../../frameloop';
+import { Feature } from '../../motion/features/Feature';
+import { getContextWindow } from '../../utils/get-context-window';
+import { noop } from '../../utils/noop';
+import { PanSession } from './PanSession';
+import type { PanHandler, PanInfo } from './types';
+
+/**
+ * Defer user callbacks to the end of the frame, so they can safely
+ * trigger state changes without interrupting the gesture.
+ */
+const asyncHandler = (handler?: PanHandler) => (event: PointerEvent, info: PanInfo) => {
+	if (handler) {
+		frame.postRender(() => handler(event, info));
+	}
+};
+
+export class PanGesture extends Feature<Element> {
+	private session?: PanSession;
+
+	private removePointerDownListener: Function = noop;
+
+	onPointerDown(pointerDownEvent: PointerEvent) {
+		this.session = new PanSession(pointerDownEvent, this.createPanHandlers(), {
+			contextWindow: getContextWindow(this.node),
+		});
+	}
+
+	createPanHandlers() {
+		const { onPanSessionStart, onPanStart, onPan, onPanEnd } = this.node.getProps();
+
+		return {
+			onSessionStart: asyncHandler(onPanSessionStart),
+			onStart: asyncHandler(onPanStart),
+			onMove: onPan,
+			onEnd: (event: PointerEvent, info: PanInfo) => {
+				delete this.session;
+				if (onPanEnd) {
+					frame.postRender(() => onPanEnd(event, info));
+				}
+			},
+		};
+	}
+
+	mount() {
+		this.removePointerDownListener = addPointerEvent(this.node.current!, 'pointerdown', (event: PointerEvent) =>
+			this.onPointerDown(event)
+		);
+	}
+
+	update() {
+		this.session && this.session.updateHandlers(this.createPanHandlers());
+	}
+
+	unmount() {
+		this.removePointerDownListener();
+		this.session && this.session.end();
+	}
+}
@@ -0,0 +1,41 @@
+import type { Point } from '../../projection/geometry/types';
+
+/**
+ * Passed in to pan event handlers like `onPan` the `PanInfo` object contains
+ * information about the current state of the tap gesture such as its
+ * `point`, `delta`, `offset` and `velocity`.
+ *
+ * ```jsx
+ * <motion.div onPan={(event, info) => {
+ *   console.log(info.point.x, info.point.y)
+ * }} />
+ * ```
+ *
+ * @public
+ */
+export interface PanInfo {
+	/**
+	 * Contains `x` and `y` values for the current pan position relative
+	 * to the device or page.
+	 */
+	point: Point;
+
+	/**
+	 * Contains `x` and `y` values for the distance moved since
+	 * the last event.
+	 */
+	delta: Point;
+
+	/**
+	 * Contains `x` and `y` values for the distance moved from
+	 * the first pan event.
+	 */
+	offset: Point;
+
+	/**
+	 * Contains `x` and `y` values for the current velocity of the pointer, in pixels per second.
+	 */
+	velocity: Point;
+}
+
+export type PanHandler = (event: PointerEvent, info: PanInfo) => void;
\ No newline at end of file
@@ -1,6 +1,8 @@
 import type { VariantLabels } from "../motion/types";
 import type { Point } from "../projection/geometry/types";
 import type { TargetAndTransition } from "../types";
+import type { EventInfo } from "../events/types";
+import type { PanInfo } from "./pan/types";
 
 /**
  * Passed in to tap event handlers like `onTap` the `TapInfo` object contains
@@ -101,4 +103,126 @@ export interface TapHandlers {
 	 * Note: This is not supported publically.
 	 */
 	globalTapTarget?: boolean;
-}
\ No newline at end of file
+}
+
+/**
+ * @public
+ */
+export interface HoverHandlers {
+	/**
+	 * Properties or variant label to animate to while the hover gesture is recognised.
+	 *
+	 * ```jsx
+	 * <motion.div whileHover={{ scale: 1.2 }} />
+	 * ```
+	 */
+	whileHover?: VariantLabels | TargetAndTransition;
+
+	/**
+	 * Callback function that fires when pointer starts hovering over the component.
+	 *
+	 * ```jsx
+	 * <motion.div onHoverStart={() => console.log('Hover starts')} />
+	 * ```
+	 */
+	onHoverStart?(event: PointerEvent, info: EventInfo): void;
+
+	/**
+	 * Callback function that fires when pointer stops hovering over the component.
+	 *
+	 * ```jsx
+	 * <motion.div onHoverEnd={() => console.log("Hover ends")} />
+	 * ```
+	 */
+	onHoverEnd?(event: PointerEvent, info: EventInfo): void;
+}
+
+/**
+ * @public
+ */
+export interface FocusHandlers {
+	/**
+	 * Properties or variant label to animate to while the focus gesture is recognised.
+	 *
+	 * The focus gesture is only recognised when the element matches `:focus-visible`,
+	 * so focusing an element with a pointer won't trigger it.
+	 *
+	 * ```jsx
+	 * <motion.input whileFocus={{ scale: 1.2 }} />
+	 * ```
+	 */
+	whileFocus?: VariantLabels | TargetAndTransition;
+}
+/**
+ * @public
+ */
+export interface PanHandlers {
+	/**
+	 * Callback function that fires when the pan gesture is recognised on this element.
+	 *
+	 * **Note:** For pan gestures to work correctly with touch input, the element needs
+	 * touch scrolling to be disabled on either x/y or both axis with the
+	 * [touch-action](https://developer.mozilla.org/en-US/docs/Web/CSS/touch-action) CSS rule.
+	 *
+	 * ```jsx
+	 * function onPan(event, info) {
+	 *   console.log(info.point.x, info.point.y)
+	 * }
+	 *
+	 * <motion.div onPan={onPan} />
+	 * ```
+	 *
+	 * @param event - The originating pointer event.
+	 * @param info - A {@link PanInfo} object containing `x` and `y` values for:
+	 *
+	 *   - `point`: Relative to the device or page.
+	 *   - `delta`: Distance moved since the last event.
+	 *   - `offset`: Offset from the original pan event.
+	 *   - `velocity`: Current velocity of the pointer.
+	 */
+	onPan?(event: PointerEvent, info: PanInfo): void;
+
+	/**
+	 * Callback function that fires when the pan gesture begins on this element.
+	 *
+	 * ```jsx
+	 * function onPanStart(event, info) {
+	 *   console.log(info.point.x, info.point.y)
+	 * }
+	 *
+	 * <motion.div onPanStart={onPanStart} />
+	 * ```
+	 */
+	onPanStart?(event: PointerEvent, info: PanInfo): void;
+
+	/**
+	 * Callback function that fires when we begin detecting a pan gesture. This
+	 * is analogous to `onMouseStart` or `onTouchStart`.
+	 *
+	 * ```jsx
+	 * function onPanSessionStart(event, info) {
+	 *   console.log(info.point.x, info.point.y)
+	 * }
+	 *
+	 * <motion.div onPanSessionStart={onPanSessionStart} />
+	 * ```
+	 *
+	 * @param info - An {@link EventInfo} object containing `x`/`y` values for:
+	 *
+	 *   - `point`: Relative to the device or page.
+	 */
+	onPanSessionStart?(event: PointerEvent, info: EventInfo): void;
+
+	/**
+	 * Callback function that fires when the pan gesture ends on this element.
+	 *
+	 * ```jsx
+	 * function onPanEnd(event, info) {
+	 *   console.log(info.point.x, info.point.y)
+	 * }
+	 *
+	 * <motion.div onPanEnd={onPanEnd} />
+	 * ```
+	 */
+	onPanEnd?(event: PointerEvent, info: PanInfo): void;
+}
@@ -0,0 +1,56 @@
+export { motion, m, type MotionComponentOptions, type CustomMotionComponent } from './motion';
+export { motionAction, motionAttachment } from './motion/action.svelte';
+export { isValidMotionProp } from './motion/utils/valid-prop';
+export { animate, createScopedAnimate } from './animation/animate';
+export { animationControls } from './animation/hooks/animation-controls';
+export { useAnimationControls } from './animation/hooks/use-animation-controls.svelte';
+export { stagger, type StaggerOptions, type StaggerOrigin } from './animation/utils/stagger';
+export type {
+	AnimationControls,
+	AnimationPlaybackControls,
+	AnimationScope,
+	DOMKeyframesDefinition,
+	DynamicAnimationOptions,
+	ElementOrSelector,
+	ObjectTarget,
+	ValueAnimationTransition,
+} from './animation/types';
+export type {
+	AnimationSequence,
+	At,
+	SequenceLabel,
+	SequenceOptions,
+	SequenceTime,
+	Segment,
+} from './animation/sequence/types';
+export { default as AnimatePresence } from './components/AnimatePresence/AnimatePresence.svelte';
+export type { AnimatePresenceProps } from './components/AnimatePresence/types';
+export { usePresence, useIsPresent } from './components/AnimatePresence/use-presence.svelte';
+export { PresenceContext, type PresenceContextProps } from './context/PresenceContext';
+export { default as MotionConfig } from './components/MotionConfig/MotionConfig.svelte';
+export type { MotionConfigProps } from './components/MotionConfig/types';
+export {
+	MotionConfigContext,
+	type MotionConfigContextProps,
+	type ReducedMotionConfig,
+} from './context/MotionConfigContext';
+export { useReducedMotion, useReducedMotionConfig } from './utils/reduced-motion/use-reduced-motion.svelte';
+export type { ReducedMotionOverride } from './utils/reduced-motion/policy';
+export { default as LazyMotion } from './components/LazyMotion/LazyMotion.svelte';
+export type { LazyProps, FeatureBundle, LazyFeatureBundle } from './components/LazyMotion/types';
+export { LazyContext, type LazyContextProps } from './context/LazyContext';
+export { domAnimation } from './render/dom/features-animation';
+export { domMax } from './render/dom/features-max';
+export { default as LayoutGroup } from './components/LayoutGroup/LayoutGroup.svelte';
+export type { LayoutGroupProps } from './components/LayoutGroup/types';
+export { LayoutGroupContext, type LayoutGroupContextProps } from './context/LayoutGroupContext';
+export { Reorder } from './components/Reorder';
+export type { ReorderGroupProps, ReorderItemProps } from './components/Reorder/types';
+export { DragControls, useDragControls } from './gestures/drag/use-drag-controls';
+export type { DraggableProps, DragHandlers } from './gestures/drag/types';
+export type { PanInfo } from './gestures/pan/types';
+export type { PanHandlers } from './gestures/types';
+export type { ViewportOptions, ViewportProps } from './motion/features/viewport/types';
+export type { LayoutProps } from './motion/features/layout/types';
+export { addScaleCorrector } from './projection/styles/scale-correction';
+export type { ScaleCorrector, ScaleCorrectorDefinition, ScaleCorrectorMap } from './projection/styles/types';
@@ -1,25 +1,163 @@
+import type { Component } from 'svelte';
+import type { ActionReturn } from 'svelte/action';
+import type { Attachment } from 'svelte/attachments';
 import type { SvelteHTMLElements } from 'svelte/elements';
 import Motion from './Motion.svelte';
-import { createHtmlRenderState, makeUseVisualState } from './motion/utils/use-visual-state';
 import { animations } from './motion/features/animations';
-import { loadFeatures } from './motion/features/load-features';
+import { preloadFeatures } from './motion/features/preload';
 import { gestureAnimations } from './motion/features/gestures';
+import { drag } from './motion/features/drag';
+import { layout } from './motion/features/layout';
+import type { FeaturePackages } from './motion/features/types';
+import type { MotionProps } from './motion/types';
+import { htmlMotionConfig } from './render/html/config-motion';
+import { svgMotionConfig } from './render/svg/config-motion';
+import { isSVGComponent } from './render/dom/utils/is-svg-component';
+import { motionAction, motionAttachment } from './motion/action.svelte';
+import { isBrowser } from './utils/is-browser';
 
-export const motion = new Proxy({} as { [K in keyof SvelteHTMLElements]: typeof Motion }, {
-    get(_target, key: string) {
-        return new Proxy(Motion, {
-            apply(target, _thisArg, args) {
-                loadFeatures({ ...animations, ...gestureAnimations });
-                const useVisualState = makeUseVisualState({ createRenderState: createHtmlRenderState });
-                if (!args[1]) {
-                    args[1] = { props: args[1], useVisualState };
-                } else {
-                    args[1].props = args[1];
-                    args[1].useVisualState = useVisualState;
-                }
-
-                return target(...args)
-            }
-        });
-    }
-})
\ No newline at end of file
+/**
+ * A `motion` component accepts every `MotionProps`, along with the attributes
+ * of the element it renders.
+ */
+export type MotionComponent = Component<MotionProps & { as?: string; ref?: any; [key: string]: any }, {}, 'ref'>;
+
+/**
+ * Provide defaults for props that haven't been passed to a component, without
+ * writing to the props object itself as Svelte's props are read-only.
+ */
+function withDefaultProps(props: Record<PropertyKey, any>, defaults: Record<PropertyKey, any>) {
+	return new Proxy(props, {
+		get: (target, key) => (key in target ? target[key] : defaults[key]),
+		has: (target, key) => key in target || key in defaults,
+		ownKeys: (target) => Array.from(new Set([...Reflect.ownKeys(target), ...Reflect.ownKeys(defaults)])),
+		getOwnPropertyDescriptor: (target, key) =>
+			key in target
+				? Reflect.getOwnPropertyDescriptor(target, key)
+				: key in defaults
+					? { value: defaults[key], enumerable: true, configurable: true }
+					: undefined,
+	});
+}
+
+export interface MotionComponentOptions {
+	/**
+	 * Forward `MotionProps` to the wrapped component, in case it reads
+	 * them itself.
+	 */
+	forwardMotionProps?: boolean;
+}
+
+/**
+ * A custom component wrapped with `motion.create` accepts every `MotionProps`,
+ * along with its own props.
+ */
+export type CustomMotionComponent<Props extends Record<string, any>> = Component<
+	MotionProps & Omit<Props, keyof MotionProps> & { ref?: any },
+	{},
+	'ref'
+>;
+
+export type MotionProxy = { [K in keyof SvelteHTMLElements]: MotionComponent } & {
+	/**
+	 * Animate an existing element as an action.
+	 *
+	 * ```svelte
+	 * <div use:motion={{ animate: { opacity: 1 } }} />
+	 * ```
+	 */
+	(element: HTMLElement | SVGElement, props?: MotionProps): ActionReturn<MotionProps>;
+
+	/**
+	 * Animate an existing element as an attachment. Pass a function returning the
+	 * props to follow their changes without recreating the attachment.
+	 *
+	 * ```svelte
+	 * <div {@attach motion(() => ({ animate: { x } }))} />
+	 * ```
+	 */
+	(props?: MotionProps | (() => MotionProps)): Attachment<HTMLElement | SVGElement>;
+
+	/**
+	 * Wrap a custom component, which must bind its root element to its `ref`
+	 * prop, so it can be animated like any other `motion` component.
+	 *
+	 * ```svelte
+	 * <!-- Button.svelte -->
+	 * <script>
+	 *   let { ref = $bindable(), children, ...rest } = $props()
+	 * </script>
+	 *
+	 * <button bind:this={ref} {...rest}>{@render children?.()}</button>
+	 * ```
+	 *
+	 * ```svelte
+	 * <script>
+	 *   const MotionButton = motion.create(Button)
+	 * </script>
+	 *
+	 * <MotionButton whileTap={{ scale: 0.9 }}>Submit</MotionButton>
+	 * ```
+	 */
+	create<Props extends Record<string, any>>(
+		Component: Component<Props, any, any>,
+		options?: MotionComponentOptions
+	): CustomMotionComponent<Props>;
+};
+
+function createMotionComponent(
+	Component: string | Component<any, any, any>,
+	{ forwardMotionProps = false }: MotionComponentOptions,
+	preloadedFeatures?: FeaturePackages
+) {
+	return new Proxy(Motion, {
+		apply(target, _thisArg, [anchor, props = {}]) {
+			preloadFeatures(props, preloadedFeatures);
+
+			const as = typeof Component === 'string' ? (props.as ?? Component) : Component;
+			const { useVisualState } = isSVGComponent(as) ? svgMotionConfig : htmlMotionConfig;
+
+			const motionProps: Record<PropertyKey, any> = withDefaultProps(props, {
+				as,
+				useVisualState,
+				forwardMotionProps,
+				get props() {
+					return motionProps;
+				},
+			});
+
+			return (target as Function)(anchor, motionProps);
+		},
+	});
+}
+
+function createMotionProxy(preloadedFeatures?: FeaturePackages) {
+	const create = (Component: Component<any, any, any>, options: MotionComponentOptions = {}) =>
+		createMotionComponent(Component, options, preloadedFeatures);
+
+	/**
+	 * Called with an element as an action, or otherwise as an attachment factory.
+	 */
+	function motionElement(
+		elementOrProps?: HTMLElement | SVGElement | MotionProps | (() => MotionProps),
+		props?: MotionProps
+	) {
+		return isBrowser && elementOrProps instanceof Element
+			? motionAction(elementOrProps, props, preloadedFeatures)
+			: motionAttachment(elementOrProps as MotionProps | (() => MotionProps), preloadedFeatures);
+	}
+
+	return new Proxy(motionElement as MotionProxy, {
+		get: (_target, key: string) => (key === 'create' ? create : createMotionComponent(key, {}, preloadedFeatures)),
+	});
+}
+
+export const motion = createMotionProxy({ ...animations, ...gestureAnimations, ...drag, ...layout });
+
+/**
+ * A `motion` component that doesn't load any features by itself. Features are
+ * provided by rendering it within `LazyMotion`, so they can be code split.
+ *
+ * @public
+ */
+export const m = createMotionProxy();
@@ -0,0 +1,56 @@
+import { untrack } from 'svelte';
+import type { ActionReturn } from 'svelte/action';
+import type { Attachment } from 'svelte/attachments';
+import { preloadFeatures } from './features/preload';
+import type { FeaturePackages } from './features/types';
+import type { MotionProps } from './types';
+import { useMotionElement } from './utils/use-motion-element.svelte';
+
+/**
+ * Animate an existing element with `use:motion`, without rendering a `motion`
+ * component around it.
+ *
+ * ```svelte
+ * <div use:motion={{ animate: { opacity: 1 }, whileHover: { scale: 1.1 } }} />
+ * ```
+ */
+export function motionAction(
+	element: HTMLElement | SVGElement,
+	props: MotionProps = {},
+	preloadedFeatures?: FeaturePackages
+): ActionReturn<MotionProps> {
+	preloadFeatures(props, preloadedFeatures);
+
+	let current = $state.raw(props);
+
+	return {
+		update: (props) => (current = props),
+		destroy: useMotionElement(element, () => current),
+	};
+}
+
+/**
+ * Animate an existing element with `{@attach motion(props)}`, without rendering
+ * a `motion` component around it.
+ *
+ * An attachment is recreated whenever the state it's created from changes, which
+ * would restart the element's animations from scratch. Passing a function instead
+ * lets the element follow the props it returns:
+ *
+ * ```svelte
+ * <div {@attach motion(() => ({ animate: { x } }))} />
+ * ```
+ */
+export function motionAttachment(
+	props: MotionProps | (() => MotionProps) = {},
+	preloadedFeatures?: FeaturePackages
+): Attachment<HTMLElement | SVGElement> {
+	const getProps = typeof props === 'function' ? props : () => props;
+
+	return (element) =>
+		untrack(() => {
+			preloadFeatures(getProps(), preloadedFeatures);
+
+			return useMotionElement(element, getProps);
+		});
+}
@@ -0,0 +1,37 @@
+import { createPresenceId } from '../../../context/PresenceContext';
+import { Feature } from '../Feature';
+
+export class ExitAnimationFeature extends Feature<unknown> {
+	private id = createPresenceId();
+
+	private removeFromPresence?: VoidFunction;
+
+	update() {
+		if (!this.node.presenceContext) return;
+
+		const { isPresent, onExitComplete } = this.node.presenceContext;
+		const { isPresent: prevIsPresent } = this.node.prevPresenceContext || {};
+
+		if (!this.node.animationState || isPresent === prevIsPresent) {
+			return;
+		}
+
+		const exitAnimation = this.node.animationState.setActive('exit', !isPresent);
+
+		if (onExitComplete && !isPresent) {
+			exitAnimation.then(() => onExitComplete(this.id));
+		}
+	}
+
+	mount() {
+		const { register } = this.node.presenceContext || {};
+
+		if (register) {
+			this.removeFromPresence = register(this.id, () => this.node.current as Element | null);
+		}
+	}
+
+	unmount() {
+		this.removeFromPresence?.();
+	}
+}
@@ -1,8 +1,12 @@
 import { AnimationFeature } from "./animation";
+import { ExitAnimationFeature } from "./animation/exit";
 import type { FeaturePackages } from "./types";
 
 export const animations: FeaturePackages = {
 	animation: {
 		Feature: AnimationFeature,
 	},
+	exit: {
+		Feature: ExitAnimationFeature,
+	},
 };
\ No newline at end of file
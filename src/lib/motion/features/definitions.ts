@@ -3,14 +3,14 @@ import type { FeatureDefinitions, Expand } from './types';
 
 const featureProps = {
 	animation: ['animate', 'variants', 'whileHover', 'whileTap', 'exit', 'whileInView', 'whileFocus', 'whileDrag'],
-	// exit: ['exit'],
-	// drag: ['drag', 'dragControls'],
-	// focus: ['whileFocus'],
-	// hover: ['whileHover', 'onHoverStart', 'onHoverEnd'],
+	exit: ['exit'],
+	drag: ['drag', 'dragControls'],
+	focus: ['whileFocus'],
+	hover: ['whileHover', 'onHoverStart', 'onHoverEnd'],
 	tap: ['whileTap', 'onTap', 'onTapStart', 'onTapCancel'],
-	// pan: ['onPan', 'onPanStart', 'onPanSessionStart', 'onPanEnd'],
-	// inView: ['whileInView', 'onViewportEnter', 'onViewportLeave'],
-	// layout: ['layout', 'layoutId'],
+	pan: ['onPan', 'onPanStart', 'onPanSessionStart', 'onPanEnd'],
+	inView: ['whileInView', 'onViewportEnter', 'onViewportLeave'],
+	layout: ['layout', 'layoutId'],
 };
 
 type KeysOf<T> = T extends T ? keyof T : never;
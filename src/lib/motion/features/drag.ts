@@ -0,0 +1,12 @@
+import { DragGesture } from "../../gestures/drag";
+import { PanGesture } from "../../gestures/pan";
+import type { FeaturePackages } from "./types";
+
+export const drag: FeaturePackages = {
+	pan: {
+		Feature: PanGesture,
+	},
+	drag: {
+		Feature: DragGesture,
+	},
+};
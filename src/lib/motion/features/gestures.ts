@@ -1,8 +1,20 @@
+import { FocusGesture } from "../../gestures/focus";
+import { HoverGesture } from "../../gestures/hover";
 import { PressGesture } from "../../gestures/press";
+import { InViewFeature } from "./viewport";
 import type { FeaturePackages } from "./types";
 
 export const gestureAnimations: FeaturePackages = {
+	inView: {
+		Feature: InViewFeature,
+	},
 	tap: {
 		Feature: PressGesture,
 	},
-};
\ No newline at end of file
+	focus: {
+		Feature: FocusGesture,
+	},
+	hover: {
+		Feature: HoverGesture,
+	},
+};
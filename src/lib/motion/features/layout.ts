@@ -0,0 +1,8 @@
+import { MeasureLayout } from './layout/MeasureLayout';
+import type { FeaturePackages } from './types';
+
+export const layout: FeaturePackages = {
+	layout: {
+		Feature: MeasureLayout,
+	},
+};
@@ -0,0 +1,76 @@
+import type { NodeGroup } from '../../../projection/node/group';
+import { ProjectionNode } from '../../../projection/node/ProjectionNode';
+import { correctBorderRadius } from '../../../projection/styles/scale-border-radius';
+import { correctBoxShadow } from '../../../projection/styles/scale-box-shadow';
+import { addScaleCorrector } from '../../../projection/styles/scale-correction';
+import { Feature } from '../Feature';
+
+const defaultScaleCorrectors = {
+	borderRadius: {
+		...correctBorderRadius,
+		applyTo: ['borderTopLeftRadius', 'borderTopRightRadius', 'borderBottomLeftRadius', 'borderBottomRightRadius'],
+	},
+	borderTopLeftRadius: correctBorderRadius,
+	borderTopRightRadius: correctBorderRadius,
+	borderBottomLeftRadius: correctBorderRadius,
+	borderBottomRightRadius: correctBorderRadius,
+	boxShadow: correctBoxShadow,
+};
+
+/**
+ * Registered once, when layout animations are first loaded, so correctors
+ * added with `addScaleCorrector` afterwards aren't overwritten.
+ */
+addScaleCorrector(defaultScaleCorrectors);
+
+/**
+ * Attaches a `ProjectionNode` to the `Visual`, which measures its layout and
+ * animates any changes to it.
+ */
+export class MeasureLayout extends Feature<HTMLElement> {
+	/**
+	 * The `LayoutGroup` group this node joined, which might since have changed.
+	 */
+	private group?: NodeGroup;
+
+	mount() {
+		const projection = new ProjectionNode(this.node);
+		this.node.projection = projection;
+
+		projection.mount(this.node.current!);
+
+		this.updateGroup();
+	}
+
+	update() {
+		const { projection } = this.node;
+		if (!projection) return;
+
+		const { layoutId: prevLayoutId } = this.node.prevProps || {};
+		projection.updateLayoutId(prevLayoutId);
+
+		this.updateGroup();
+	}
+
+	private updateGroup() {
+		const { projection, layoutGroup } = this.node;
+		const group = layoutGroup && layoutGroup.group;
+
+		if (!projection || group === this.group) return;
+
+		this.group && this.group.remove(projection);
+		group && group.add(projection);
+		this.group = group;
+	}
+
+	unmount() {
+		const { projection } = this.node;
+		if (!projection) return;
+
+		this.group && this.group.remove(projection);
+		this.group = undefined;
+
+		projection.unmount();
+		this.node.projection = undefined;
+	}
+}
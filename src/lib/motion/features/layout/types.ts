@@ -0,0 +1,88 @@
+/**
+ * @public
+ */
+export interface LayoutProps {
+	/**
+	 * If `true`, this component will automatically animate to its new position when
+	 * its layout changes.
+	 *
+	 * ```jsx
+	 * <motion.div layout />
+	 * ```
+	 *
+	 * This will perform a layout animation using performant transforms. Part of this technique
+	 * involved animating an element's scale. This can introduce visual distortions on children,
+	 * `boxShadow` and `borderRadius`.
+	 *
+	 * To correct distortion on immediate children, add `layout` to those too.
+	 *
+	 * If `layout` is set to `"position"`, only the position of the component will animate,
+	 * and it will snap to its new size. If set to `"size"`, only its size will animate and
+	 * it will snap to its new position.
+	 *
+	 * @public
+	 */
+	layout?: boolean | 'position' | 'size';
+
+	/**
+	 * Enable shared layout transitions between different components with the same `layoutId`.
+	 *
+	 * When a component with a `layoutId` is removed from the tree and another component with
+	 * the same `layoutId` is added, the new component will animate from the previous
+	 * component's bounding box.
+	 *
+	 * If the previous component remains in the tree, for instance because it's animating out
+	 * via `AnimatePresence`, the two components will crossfade. A component that remains in
+	 * the tree after losing the lead to another is hidden until the lead is removed, at which
+	 * point it'll animate back from the lead.
+	 *
+	 * ```svelte
+	 * {#each items as item}
+	 *   <motion.li layout>
+	 *     {item.name}
+	 *     {#if item.isSelected}
+	 *       <motion.div layoutId="underline" />
+	 *     {/if}
+	 *   </motion.li>
+	 * {/each}
+	 * ```
+	 *
+	 * @public
+	 */
+	layoutId?: string;
+
+	/**
+	 * Whether components sharing a `layoutId` should crossfade between one another
+	 * while they're both on screen. Defaults to `true`.
+	 *
+	 * @public
+	 */
+	layoutCrossfade?: boolean;
+
+	/**
+	 * Layout changes are detected whenever the DOM is mutated. Changes that aren't detected,
+	 * like updating the inline style of a `motion` component, can be tracked by passing a
+	 * value that changes along with them.
+	 *
+	 * ```jsx
+	 * <motion.div layout layoutDependency={isOpen} style="height: {isOpen ? 200 : 100}px" />
+	 * ```
+	 *
+	 * @public
+	 */
+	layoutDependency?: any;
+
+	/**
+	 * A callback that will fire when a layout animation on this component starts.
+	 *
+	 * @public
+	 */
+	onLayoutAnimationStart?(): void;
+
+	/**
+	 * A callback that will fire when a layout animation on this component completes.
+	 *
+	 * @public
+	 */
+	onLayoutAnimationComplete?(): void;
+}
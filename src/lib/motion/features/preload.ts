@@ -0,0 +1,30 @@
+import { LazyContext, defaultLazyContext } from '../../context/LazyContext';
+import { invariant, warning } from '../../utils/errors';
+import type { MotionProps } from '../types';
+import { loadFeatures } from './load-features';
+import type { FeaturePackages } from './types';
+
+/**
+ * `motion` components preload every feature, which would defeat the purpose
+ * of rendering them within a strict `LazyMotion`.
+ */
+function useStrictMode({ ignoreStrict }: MotionProps) {
+	const { strict } = LazyContext.getOr(defaultLazyContext);
+
+	if (strict) {
+		const strictMessage =
+			'You have rendered a `motion` component within a `LazyMotion` component. This will break tree shaking. Import and render a `m` component instead.';
+
+		ignoreStrict ? warning(false, strictMessage) : invariant(false, strictMessage);
+	}
+}
+
+/**
+ * Load the features a `motion` component, action or attachment comes with, if any.
+ */
+export function preloadFeatures(props: MotionProps, preloadedFeatures?: FeaturePackages) {
+	if (!preloadedFeatures) return;
+
+	useStrictMode(props);
+	loadFeatures(preloadedFeatures);
+}
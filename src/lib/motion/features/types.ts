@@ -24,7 +24,7 @@ export interface HydratedFeatureDefinitions {
 	hover?: HydratedFeatureDefinition<Element>;
 	pan?: HydratedFeatureDefinition<Element>;
 	inView?: HydratedFeatureDefinition<Element>;
-	layout?: HydratedFeatureDefinition<Element>;
+	layout?: HydratedFeatureDefinition<HTMLElement>;
 }
 
 export type FeatureDefinition = HydratedFeatureDefinitions[keyof HydratedFeatureDefinitions];
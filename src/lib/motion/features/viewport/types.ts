@@ -0,0 +1,56 @@
+import type { TargetAndTransition } from '../../../types';
+import type { RefObject } from '../../../utils/safe-react-types';
+import type { VariantLabels } from '../../types';
+
+export type ViewportEventHandler = (entry: IntersectionObserverEntry | null) => void;
+
+export interface ViewportOptions {
+	root?: RefObject<Element> | Element;
+	once?: boolean;
+	margin?: string;
+	amount?: 'some' | 'all' | number;
+}
+
+export interface ViewportProps {
+	/**
+	 * Properties or variant label to animate to while the element is in view.
+	 *
+	 * ```jsx
+	 * <motion.div whileInView={{ opacity: 1 }} />
+	 * ```
+	 */
+	whileInView?: VariantLabels | TargetAndTransition;
+
+	/**
+	 * Callback function that fires when an element enters the viewport.
+	 *
+	 * ```jsx
+	 * <motion.div onViewportEnter={(entry) => console.log(entry.isIntersecting)} />
+	 * ```
+	 */
+	onViewportEnter?: ViewportEventHandler;
+
+	/**
+	 * Callback function that fires when an element leaves the viewport.
+	 *
+	 * ```jsx
+	 * <motion.div onViewportLeave={(entry) => console.log(entry.isIntersecting)} />
+	 * ```
+	 */
+	onViewportLeave?: ViewportEventHandler;
+
+	/**
+	 * Options to control how the element's visibility is tracked:
+	 *
+	 * - `root`: The element to use as the viewport. Defaults to the browser window.
+	 * - `once`: If `true`, stop tracking once the element has entered the viewport.
+	 * - `margin`: A margin to add to the viewport, in the format of the CSS `margin` property.
+	 * - `amount`: How much of the element must intersect the viewport to be considered in view.
+	 *   Either `"some"`, `"all"` or a number between `0` and `1`.
+	 *
+	 * ```jsx
+	 * <motion.section viewport={{ once: true, amount: 0.5 }} whileInView="visible" />
+	 * ```
+	 */
+	viewport?: ViewportOptions;
+}
@@ -4,7 +4,10 @@ import type { AnimationControls } from '../animation/types';
 import type { Variants, Target, Transition, TargetAndTransition, Omit, MakeCustomValueType } from '../types';
 import type { Snippet } from 'svelte';
 import type { EventProps } from '../render/types';
-import type { TapHandlers } from '../gestures/types';
+import type { FocusHandlers, HoverHandlers, PanHandlers, TapHandlers } from '../gestures/types';
+import type { DraggableProps } from '../gestures/drag/types';
+import type { ViewportProps } from './features/viewport/types';
+import type { LayoutProps } from './features/layout/types';
 
 /**
  * Either a string, or array of strings, that reference variants defined via the `variants` prop.
@@ -249,13 +252,13 @@ type ExternalMotionValues = {
 export interface MotionProps
 	extends AnimationProps,
 		EventProps,
-		// PanHandlers,
+		PanHandlers,
 		TapHandlers,
-		// HoverHandlers,
-		// FocusHandlers,
-		// ViewportProps,
-		// DraggableProps,
-		// LayoutProps,
+		HoverHandlers,
+		FocusHandlers,
+		ViewportProps,
+		DraggableProps,
+		LayoutProps,
 		MotionAdvancedProps {
 	/**
 	 *
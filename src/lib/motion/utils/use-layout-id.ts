@@ -0,0 +1,19 @@
+import { LayoutGroupContext, type LayoutGroupContextProps } from '../../context/LayoutGroupContext';
+import type { MotionProps } from '../types';
+
+/**
+ * Namespace a `layoutId` with the `id` of the closest `LayoutGroup`, if any.
+ * Both are read lazily, so `current` follows changes to either.
+ */
+export function useLayoutId(props: MotionProps) {
+	const layoutGroup: LayoutGroupContextProps = LayoutGroupContext.getOr({});
+
+	return {
+		get current() {
+			const { layoutId } = props;
+			const { id: layoutGroupId } = layoutGroup;
+
+			return layoutGroupId && layoutId !== undefined ? layoutGroupId + '-' + layoutId : layoutId;
+		},
+	};
+}
@@ -0,0 +1,38 @@
+import { untrack } from 'svelte';
+import { MotionConfigContext, defaultMotionConfig } from '../../context/MotionConfigContext';
+import { isSVGComponent } from '../../render/dom/utils/is-svg-component';
+import { htmlMotionConfig } from '../../render/html/config-motion';
+import { svgMotionConfig } from '../../render/svg/config-motion';
+import type { MotionProps } from '../types';
+import { useLayoutId } from './use-layout-id';
+import { useVisual } from './use-visual.svelte';
+import type { UseVisualState } from './use-visual-state';
+
+/**
+ * Drive an existing element with a `Visual`, as `Motion.svelte` does for the
+ * element it renders. This has to be called within an effect, like that of an
+ * action or attachment, whose teardown also tears down the visual's effects.
+ *
+ * Unlike `Motion.svelte`, there are no children to provide a `MotionContext` to,
+ * so elements nested within don't inherit its variants.
+ */
+export function useMotionElement(element: HTMLElement | SVGElement, getProps: () => MotionProps) {
+	const as = element instanceof SVGElement ? element.tagName : element.tagName.toLowerCase();
+	const { useVisualState } = isSVGComponent(as) ? svgMotionConfig : htmlMotionConfig;
+	const { isStatic = false } = MotionConfigContext.getOr(defaultMotionConfig);
+
+	const layoutId = useLayoutId({
+		get layoutId() {
+			return getProps().layoutId;
+		},
+	});
+	const props: MotionProps = $derived({ ...getProps(), layoutId: layoutId.current });
+
+	const visualState = (useVisualState as UseVisualState<HTMLElement | SVGElement, unknown>)(untrack(() => props), isStatic);
+	const visual = useVisual(as, visualState, () => props);
+
+	visualState.mount && visualState.mount(element);
+	visual.mount(element);
+
+	return () => visual.unmount();
+}
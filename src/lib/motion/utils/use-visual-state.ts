@@ -2,6 +2,9 @@ import { isAnimationControls } from "../../animation/utils/is-animation-controls
 import type { ResolvedValues } from "../../render/types";
 import { resolveVariantFromProps } from "../../render/utils/resolve-variants";
 import type { MotionProps } from "../types";
+import { PresenceContext, type PresenceContextProps } from "../../context/PresenceContext";
+import { MotionContext, type MotionContextProps } from "../../context/MotionContext";
+import { isControllingVariants as checkIsControllingVariants, isVariantNode as checkIsVariantNode } from "../../render/utils/is-controlling-variants";
 
 export interface VisualState<Instance, RenderState> {
 	renderState: RenderState;
@@ -27,9 +30,14 @@ export const createHtmlRenderState = () => ({
   vars: {},
 });
 
-function makeState<I, RS>({ createRenderState, onMount }: UseVisualStateConfig<I, RS>, props: MotionProps) {
+function makeState<I, RS>(
+  { createRenderState, onMount }: UseVisualStateConfig<I, RS>,
+  props: MotionProps,
+  context: MotionContextProps,
+  presenceContext: PresenceContextProps | null
+) {
   const state: VisualState<I, RS> = {
-    latestValues: makeLatestValues(props),
+    latestValues: makeLatestValues(props, context, presenceContext),
     renderState: createRenderState(),
   };
 
@@ -43,14 +51,16 @@ function makeState<I, RS>({ createRenderState, onMount }: UseVisualStateConfig<I
 export const makeUseVisualState = 
 <I, RS>(config: UseVisualStateConfig<I, RS>): UseVisualState<I, RS> => 
 (props: MotionProps, isStatic: boolean): VisualState<I, RS> => {
-  const make = () => makeState(config, props);
+  const context = MotionContext.getOr({});
+  const presenceContext = PresenceContext.getOr(null);
+  const make = () => makeState(config, props, context, presenceContext);
 
   const state = make();
 
   return isStatic ? make() : state;
 };
 
-function makeLatestValues(props: MotionProps) {
+function makeLatestValues(props: MotionProps, context: MotionContextProps, presenceContext: PresenceContextProps | null) {
   const values: ResolvedValues = {};
 
   // const motionValues = scrapeMotionValues(() => props, {});
@@ -59,8 +69,15 @@ function makeLatestValues(props: MotionProps) {
   // }
 
   let { initial, animate } = props;
+  const isControllingVariants = checkIsControllingVariants(props);
+  const isVariantNode = checkIsVariantNode(props);
 
-  let isInitialAnimationBlocked = false;
+  if (context && isVariantNode && !isControllingVariants && props.inherit !== false) {
+    if (initial === undefined) initial = context.initial;
+    if (animate === undefined) animate = context.animate;
+  }
+
+  let isInitialAnimationBlocked = presenceContext ? presenceContext.initial === false : false;
 
   isInitialAnimationBlocked = isInitialAnimationBlocked || initial === false;
 
@@ -1,12 +1,20 @@
-import { IsMounted } from 'runed';
 import { createDomVisual as createVisual } from '../../render/dom/create-visual';
 import type { VisualState } from './use-visual-state.js';
 import type { MotionProps } from '../types';
 import { optimizedAppearDataAttribute } from '../../animation/optimized-appear/data-id';
-import { untrack } from 'svelte';
+import { untrack, type Component as SvelteComponent } from 'svelte';
 import { microtask } from '../../frameloop/microtask';
-
-export function useVisual<Instance, RenderState>(Component: string, visualState: VisualState<Instance, RenderState>, props: MotionProps) {
+import { PresenceContext } from '../../context/PresenceContext';
+import { MotionContext, type MotionContextProps } from '../../context/MotionContext';
+import { LayoutGroupContext, type LayoutGroupContextProps } from '../../context/LayoutGroupContext';
+import { MotionConfigContext, defaultMotionConfig } from '../../context/MotionConfigContext';
+import { LazyContext, defaultLazyContext } from '../../context/LazyContext';
+
+/**
+ * `getProps` should return a new snapshot of the props whenever they change, so
+ * the visual can compare them with the previous snapshot.
+ */
+export function useVisual<Instance, RenderState>(Component: string | SvelteComponent<any>, visualState: VisualState<Instance, RenderState>, getProps: () => MotionProps) {
   // const visualRef = $state<{ current: Visual<Instance> | null }>({ current: null });
 
   // if (!visualRef.current && createVisual) {
@@ -22,7 +30,23 @@ export function useVisual<Instance, RenderState>(Component: string, visualState:
   //   visualRef.current = createVisual(Component, options);
   // }
 
-  const visual = createVisual && createVisual(Component, { visualState, props });
+  const { visual: parent }: MotionContextProps = MotionContext.getOr({});
+  const presenceContext = PresenceContext.getOr(null);
+  const layoutGroup: LayoutGroupContextProps = LayoutGroupContext.getOr({});
+  const motionConfig = MotionConfigContext.getOr(defaultMotionConfig);
+  const lazyContext = LazyContext.getOr(defaultLazyContext);
+
+  const visual =
+    createVisual &&
+    createVisual(Component, {
+      visualState,
+      parent,
+      props: untrack(getProps),
+      presenceContext,
+      layoutGroup,
+      blockInitialAnimation: presenceContext ? presenceContext.initial === false : false,
+      motionConfig,
+    });
 
   // const initialLayoutGroupConfig = useContext(SwitchLayoutGroupContext);
 
@@ -35,33 +59,50 @@ export function useVisual<Instance, RenderState>(Component: string, visualState:
   // 	createProjectionNode(visualElementRef.current!, props, ProjectionNodeConstructor, initialLayoutGroupConfig);
   // }
 
-  const isMounted = new IsMounted();
-  $inspect(props)
+  let latestProps = visual.getProps();
+
+  /**
+   * Pass every new snapshot of our props to the visual, and create or update the
+   * features they enable. The initial props are skipped, as the visual was created
+   * with them.
+   */
   $effect(() => {
-    props;
-    /**
-     * Check the component has already mounted before calling
-     * `update` unnecessarily. This ensures we skip the initial update.
-     */
-    if (visual && isMounted.current) {
-      /**
-       * make sure props update but untrack update because scroll and interpolate break from infinite effect call *greater then 9/10 calls.
-       */
-      untrack(() => visual.update(props));
-    }
+    const props = getProps();
+
+    if (!visual || props === latestProps) return;
+    latestProps = props;
+
+    untrack(() => {
+      visual.update(props, visual.presenceContext);
+      if (!motionConfig.isStatic) visual.updateFeatures();
+    });
+  });
+
+  /**
+   * New props might change layout without mutating the DOM in a way the projection
+   * tree observes, so notify it explicitly. A `layoutDependency` limits this to
+   * changes to it.
+   */
+  const layoutDependency = $derived.by(() => {
+    const props = getProps();
+    return props.layoutDependency === undefined ? props : props.layoutDependency;
+  });
+
+  $effect.pre(() => {
+    layoutDependency;
+    untrack(() => visual && visual.projection && visual.projection.willUpdate());
   });
 
   /**
    * Cache this value as we want to know whether HandoffAppearAnimations
    * was present on initial render - it will be deleted after this.
    */
-  const optimisedAppearId = props[optimizedAppearDataAttribute]!;
+  const optimisedAppearId = latestProps[optimizedAppearDataAttribute]!;
   let wantsHandoff =
     Boolean(optimisedAppearId) &&
     !window.MotionHandoffIsComplete?.(optimisedAppearId) &&
     window.MotionHasOptimisedAnimation?.(optimisedAppearId);
 
-  // $inspect(presenceContext);
 
   $effect(() => {
     // const logger = console.context('use-visual-element');
@@ -71,7 +112,11 @@ export function useVisual<Instance, RenderState>(Component: string, visualState:
 
     window.MotionIsMounted = true;
 
-    visual.updateFeatures();
+    /**
+     * Static components render their initial state, but never load the
+     * features that animate or respond to gestures.
+     */
+    if (!motionConfig.isStatic) visual.updateFeatures();
     microtask.render(() => visual.render);
 
     /**
@@ -114,6 +159,11 @@ export function useVisual<Instance, RenderState>(Component: string, visualState:
   // );
 
   $effect(() => {
+    /**
+     * Animate to every new snapshot of our props.
+     */
+    getProps();
+
     if (!visual) return;
 
     // const logger = console.context('use-visual-element');
@@ -160,15 +210,42 @@ export function useVisual<Instance, RenderState>(Component: string, visualState:
   // 	}
   // );
 
-  // watch(
-  // 	() => presenceContext.current,
-  // 	() => {
-  // 		visualElement?.updateFeatures();
+  /**
+   * Features provided asynchronously by `LazyMotion` might load after we've
+   * mounted, in which case we pick them up once they have.
+   */
+  if (!lazyContext.isLoaded) {
+    $effect(() => {
+      if (!visual || !lazyContext.isLoaded || motionConfig.isStatic) return;
 
-  // 		microtask.render(() => visualElement.render);
-  // 	},
-  // 	{ lazy: true }
-  // );
+      /**
+       * There was no animation state when we mounted, so nothing has animated
+       * to our props yet.
+       */
+      untrack(() => {
+        visual.updateFeatures();
+        visual.animationState && visual.animationState.animateChanges();
+      });
+    });
+  }
+
+  $effect(() => {
+    /**
+     * The presence context exposes reactive getters, so spreading it both
+     * subscribes to presence changes and snapshots them for the features
+     * to compare against the previous state.
+     */
+    const presence = presenceContext && { ...presenceContext };
+
+    if (!visual) return;
+
+    untrack(() => {
+      visual.update(visual.getProps(), presence);
+      if (!motionConfig.isStatic) visual.updateFeatures();
+
+      microtask.render(visual.render);
+    });
+  });
 
   return visual;
 }
\ No newline at end of file
@@ -0,0 +1,55 @@
+import type { MotionProps } from '../types';
+
+/**
+ * A list of all valid MotionProps.
+ */
+const validMotionProps = new Set<keyof MotionProps | string>([
+	'animate',
+	'exit',
+	'variants',
+	'initial',
+	'values',
+	'transition',
+	'transformTemplate',
+	'custom',
+	'inherit',
+	'onBeforeLayoutMeasure',
+	'onAnimationStart',
+	'onAnimationComplete',
+	'onUpdate',
+	'onDragStart',
+	'onDrag',
+	'onDragEnd',
+	'onMeasureDragConstraints',
+	'onDirectionLock',
+	'onDragTransitionEnd',
+	'_dragX',
+	'_dragY',
+	'onHoverStart',
+	'onHoverEnd',
+	'onViewportEnter',
+	'onViewportLeave',
+	'globalTapTarget',
+	'ignoreStrict',
+	'viewport',
+]);
+
+/**
+ * Check whether a prop name is a valid `MotionProp` key.
+ *
+ * @param key - Name of the property to check
+ * @returns `true` is key is a valid `MotionProp`.
+ *
+ * @public
+ */
+export function isValidMotionProp(key: string) {
+	return (
+		key.startsWith('while') ||
+		(key.startsWith('drag') && key !== 'draggable') ||
+		key.startsWith('layout') ||
+		key.startsWith('onTap') ||
+		key.startsWith('onPan') ||
+		key.startsWith('onLayout') ||
+		validMotionProps.has(key)
+	);
+}
@@ -0,0 +1,35 @@
+import { circOut } from '../../easing/circ';
+import type { EasingFunction } from '../../easing/types';
+import { noop } from '../../utils/noop';
+import { progress as calcProgress } from '../../utils/progress';
+
+/**
+ * Compress an easing function to run within a slice of the overall animation.
+ */
+function compress(min: number, max: number, easing: EasingFunction): EasingFunction {
+	return (p: number) => {
+		// Could replace ifs with clamp
+		if (p < min) return 0;
+		if (p > max) return 1;
+		return easing(calcProgress(min, max, p));
+	};
+}
+
+const easeCrossfadeIn = compress(0, 0.5, circOut);
+const easeCrossfadeOut = compress(0.5, 0.95, noop);
+
+/**
+ * The opacity of the lead (entering) node during a crossfade, as a
+ * multiplier of its own opacity.
+ */
+export function crossfadeInOpacity(progress: number) {
+	return easeCrossfadeIn(progress);
+}
+
+/**
+ * The opacity of the follow (exiting) node during a crossfade, as a
+ * multiplier of its own opacity.
+ */
+export function crossfadeOutOpacity(progress: number) {
+	return 1 - easeCrossfadeOut(progress);
+}
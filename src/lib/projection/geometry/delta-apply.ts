@@ -0,0 +1,48 @@
+import type { Axis, Box, Delta } from './types';
+
+/**
+ * Apply a translate to an axis
+ */
+export function translateAxis(axis: Axis, distance: number) {
+	axis.min = axis.min + distance;
+	axis.max = axis.max + distance;
+}
+
+/**
+ * Apply a translate to a box
+ */
+export function translateBox(box: Box, { x, y }: { x: number; y: number }) {
+	translateAxis(box.x, x);
+	translateAxis(box.y, y);
+}
+/**
+ * Scales a point based on a factor and an originPoint
+ */
+export function scalePoint(point: number, scale: number, originPoint: number) {
+	const distanceFromOrigin = point - originPoint;
+	const scaled = scale * distanceFromOrigin;
+	return originPoint + scaled;
+}
+
+/**
+ * Applies a translate/scale delta to a point
+ */
+export function applyPointDelta(point: number, translate: number, scale: number, originPoint: number) {
+	return scalePoint(point, scale, originPoint) + translate;
+}
+
+/**
+ * Applies a translate/scale delta to an axis
+ */
+export function applyAxisDelta(axis: Axis, translate = 0, scale = 1, originPoint: number) {
+	axis.min = applyPointDelta(axis.min, translate, scale, originPoint);
+	axis.max = applyPointDelta(axis.max, translate, scale, originPoint);
+}
+
+/**
+ * Applies a translate/scale delta to a box
+ */
+export function applyBoxDelta(box: Box, { x, y }: Delta) {
+	applyAxisDelta(box.x, x.translate, x.scale, x.originPoint);
+	applyAxisDelta(box.y, y.translate, y.scale, y.originPoint);
+}
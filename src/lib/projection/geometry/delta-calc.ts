@@ -0,0 +1,37 @@
+import { mixNumber } from '../../utils/mix/number';
+import type { Axis, AxisDelta, Box, Delta } from './types';
+
+const SCALE_PRECISION = 0.0001;
+const SCALE_MIN = 1 - SCALE_PRECISION;
+const SCALE_MAX = 1 + SCALE_PRECISION;
+const TRANSLATE_PRECISION = 0.01;
+const TRANSLATE_MIN = 0 - TRANSLATE_PRECISION;
+const TRANSLATE_MAX = 0 + TRANSLATE_PRECISION;
+
+export function calcLength(axis: Axis) {
+	return axis.max - axis.min;
+}
+
+export function isNear(value: number, target: number, maxDistance: number) {
+	return Math.abs(value - target) <= maxDistance;
+}
+
+export function calcAxisDelta(delta: AxisDelta, source: Axis, target: Axis, origin = 0.5) {
+	delta.origin = origin;
+	delta.originPoint = mixNumber(source.min, source.max, delta.origin);
+	delta.scale = calcLength(target) / calcLength(source);
+	delta.translate = mixNumber(target.min, target.max, delta.origin) - delta.originPoint;
+
+	if ((delta.scale >= SCALE_MIN && delta.scale <= SCALE_MAX) || Number.isNaN(delta.scale)) {
+		delta.scale = 1.0;
+	}
+
+	if ((delta.translate >= TRANSLATE_MIN && delta.translate <= TRANSLATE_MAX) || Number.isNaN(delta.translate)) {
+		delta.translate = 0.0;
+	}
+}
+
+export function calcBoxDelta(delta: Delta, source: Box, target: Box, origin?: { x?: number; y?: number }) {
+	calcAxisDelta(delta.x, source.x, target.x, origin ? origin.x : undefined);
+	calcAxisDelta(delta.y, source.y, target.y, origin ? origin.y : undefined);
+}
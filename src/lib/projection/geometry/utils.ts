@@ -0,0 +1,46 @@
+import { mixNumber } from '../../utils/mix/number';
+import type { Axis, AxisDelta, Box, Delta } from './types';
+
+function isAxisDeltaZero(delta: AxisDelta) {
+	return delta.translate === 0 && delta.scale === 1;
+}
+
+export function isDeltaZero(delta: Delta) {
+	return isAxisDeltaZero(delta.x) && isAxisDeltaZero(delta.y);
+}
+
+export function axisEquals(a: Axis, b: Axis) {
+	return a.min === b.min && a.max === b.max;
+}
+
+export function boxEquals(a: Box, b: Box) {
+	return axisEquals(a.x, b.x) && axisEquals(a.y, b.y);
+}
+
+export function axisEqualsRounded(a: Axis, b: Axis) {
+	return Math.round(a.min) === Math.round(b.min) && Math.round(a.max) === Math.round(b.max);
+}
+
+export function boxEqualsRounded(a: Box, b: Box) {
+	return axisEqualsRounded(a.x, b.x) && axisEqualsRounded(a.y, b.y);
+}
+
+/**
+ * Mix two axes into the output axis.
+ *
+ * This is a mutative operation.
+ */
+export function mixAxis(output: Axis, from: Axis, to: Axis, progress: number) {
+	output.min = mixNumber(from.min, to.min, progress);
+	output.max = mixNumber(from.max, to.max, progress);
+}
+
+/**
+ * Mix two boxes into the output box.
+ *
+ * This is a mutative operation.
+ */
+export function mixBox(output: Box, from: Box, to: Box, progress: number) {
+	mixAxis(output.x, from.x, to.x, progress);
+	mixAxis(output.y, from.y, to.y, progress);
+}
@@ -0,0 +1,526 @@
+import { animateSingleValue } from '../../animation/animate/single-value';
+import type { AnimationPlaybackControls } from '../../animation/types';
+import { getValueTransition } from '../../animation/utils/get-value-transition';
+import type { Visual } from '../../render/Visual.svelte';
+import type { ResolvedValues } from '../../render/types';
+import type { Transition } from '../../types';
+import { layoutKey } from '../../utils/reduced-motion/policy';
+import { SubscriptionManager } from '../../utils/subscription-manager';
+import { copyBoxInto } from '../geometry/copy';
+import { applyBoxDelta } from '../geometry/delta-apply';
+import { calcBoxDelta, calcLength } from '../geometry/delta-calc';
+import { createBox, createDelta } from '../geometry/models';
+import type { Box, Point } from '../geometry/types';
+import { boxEqualsRounded, isDeltaZero, mixBox } from '../geometry/utils';
+import { eachAxis } from '../utils/each-axis';
+import { measurePageBox } from '../utils/measure';
+import { buildProjectionTransform } from '../styles/transform';
+import { crossfadeInOpacity, crossfadeOutOpacity } from '../animation/mix-values';
+import { projectionTree } from './ProjectionTree';
+import type { LayoutAnimationType, ProjectionEventHandlers } from './types';
+
+/**
+ * We use 1000 as the animation target as 0-1000 maps better to pixels than 0-1
+ * which has a noticeable difference in spring animations
+ */
+const animationTarget = 1000;
+
+type ProjectedStyle = 'transform' | 'transformOrigin' | 'visibility' | 'opacity';
+
+const defaultLayoutTransition: Transition = {
+	duration: 0.45,
+	ease: [0.4, 0, 0.1, 1],
+};
+
+/**
+ * A `ProjectionNode` measures the layout of a `Visual`'s element and, when that
+ * layout changes, animates the element from its previous box to its new one
+ * with transforms.
+ */
+export class ProjectionNode {
+	readonly visualElement: Visual<HTMLElement>;
+
+	instance?: HTMLElement;
+
+	/**
+	 * The latest layout, measured with every transform removed.
+	 */
+	layout?: Box;
+
+	/**
+	 * The layout as measured before the latest update.
+	 */
+	prevLayout?: Box;
+
+	/**
+	 * While animating, the box this node should visually occupy. When not animating,
+	 * this node is projected into its layout.
+	 */
+	target?: Box;
+
+	/**
+	 * The box the current layout animation is animating from.
+	 */
+	private animationOrigin?: Box;
+
+	/**
+	 * The layout box, corrected for the projection of every projecting ancestor.
+	 */
+	private layoutCorrected = createBox();
+
+	/**
+	 * The delta that projects the corrected layout into the target box.
+	 */
+	projectionDelta = createDelta();
+
+	/**
+	 * The accumulated scale of every projecting ancestor.
+	 */
+	treeScale: Point = { x: 1, y: 1 };
+
+	currentAnimation?: AnimationPlaybackControls;
+
+	/**
+	 * Layout animations can be blocked, for instance while this node is being dragged.
+	 */
+	isAnimationBlocked = false;
+
+	/**
+	 * The previous lead of this node's `layoutId` stack, which this node will
+	 * animate from once it's measured.
+	 */
+	private resumingFrom?: ProjectionNode;
+
+	/**
+	 * Where the previous lead was last seen when this node was promoted.
+	 */
+	private resumeSnapshot?: Box;
+
+	/**
+	 * The previous lead, while it's crossfading out and following this node's animation.
+	 */
+	private follow?: ProjectionNode;
+
+	/**
+	 * While crossfading, the opacity of this node relative to its own.
+	 */
+	private crossfadeOpacity?: number;
+
+	/**
+	 * The inline values of the styles overridden to project this node, restored
+	 * once it's no longer projecting them.
+	 */
+	private overriddenStyles: Partial<Record<ProjectedStyle, string>> = {};
+
+	private prevTransform?: string;
+
+	private eventHandlers = new Map<keyof ProjectionEventHandlers, SubscriptionManager<any>>();
+
+	constructor(visualElement: Visual<HTMLElement>) {
+		this.visualElement = visualElement;
+	}
+
+	get depth() {
+		return this.visualElement.depth;
+	}
+
+	get layoutId() {
+		return this.visualElement.getProps().layoutId;
+	}
+
+	get animationType(): LayoutAnimationType {
+		const { layout } = this.visualElement.getProps();
+		return typeof layout === 'string' ? layout : 'both';
+	}
+
+	/**
+	 * Every projecting ancestor, ordered from the top of the tree down.
+	 */
+	get path() {
+		const path: ProjectionNode[] = [];
+		let parent = this.visualElement.parent;
+
+		while (parent) {
+			if (parent.projection) path.unshift(parent.projection);
+			parent = parent.parent;
+		}
+
+		return path;
+	}
+
+	mount(instance: HTMLElement) {
+		this.instance = instance;
+
+		const { layoutId } = this;
+		if (layoutId) projectionTree.registerSharedNode(layoutId, this);
+
+		projectionTree.add(this);
+	}
+
+	/**
+	 * The layout and target are kept after unmounting, so that a node taking
+	 * over this node's `layoutId` can animate from wherever it was last seen.
+	 */
+	unmount() {
+		const stack = this.getStack();
+		stack && stack.remove(this);
+
+		this.stopAnimation();
+		this.releaseFollow();
+		projectionTree.remove(this);
+		this.eventHandlers.clear();
+		this.instance = undefined;
+	}
+
+	/**
+	 * Move this node from the stack of its previous `layoutId` to that of its
+	 * current one, where it's promoted to lead.
+	 */
+	updateLayoutId(prevLayoutId: string | undefined) {
+		const { layoutId } = this;
+		if (layoutId === prevLayoutId) return;
+
+		const prevStack = prevLayoutId ? projectionTree.getStack(prevLayoutId) : undefined;
+		prevStack && prevStack.remove(this);
+
+		if (layoutId) {
+			this.willUpdate();
+			projectionTree.registerSharedNode(layoutId, this);
+		}
+	}
+
+	getStack() {
+		const { layoutId } = this;
+		return layoutId ? projectionTree.getStack(layoutId) : undefined;
+	}
+
+	/**
+	 * Nodes without a `layoutId` are always the lead.
+	 */
+	isLead() {
+		const stack = this.getStack();
+		return stack ? stack.lead === this : true;
+	}
+
+	/**
+	 * Animate from the previous lead of this node's `layoutId` stack.
+	 */
+	resumeFrom(prevLead: ProjectionNode) {
+		this.resumingFrom = prevLead;
+		this.resumeSnapshot = prevLead.getSnapshot();
+	}
+
+	scheduleRender() {
+		this.visualElement.scheduleRender();
+	}
+
+	addEventListener<Name extends keyof ProjectionEventHandlers>(name: Name, handler: ProjectionEventHandlers[Name]) {
+		if (!this.eventHandlers.has(name)) {
+			this.eventHandlers.set(name, new SubscriptionManager());
+		}
+
+		return this.eventHandlers.get(name)!.add(handler);
+	}
+
+	notifyListeners<Name extends keyof ProjectionEventHandlers>(
+		name: Name,
+		...args: Parameters<ProjectionEventHandlers[Name]>
+	) {
+		const subscriptionManager = this.eventHandlers.get(name);
+		subscriptionManager && subscriptionManager.notify(...args);
+	}
+
+	/**
+	 * Notify the tree of an upcoming update, so it checks for layout changes once
+	 * it's been applied. Listeners, like this node's `LayoutGroup`, are notified
+	 * too so they can mark their own nodes for update.
+	 */
+	willUpdate(shouldNotifyListeners = true) {
+		projectionTree.scheduleUpdate();
+
+		shouldNotifyListeners && this.notifyListeners('willUpdate');
+	}
+
+	/**
+	 * Where this node currently appears on screen, excluding its own transforms.
+	 */
+	getSnapshot() {
+		const box = this.target || this.layout;
+		if (!box) return;
+
+		const snapshot = createBox();
+		copyBoxInto(snapshot, box);
+		return snapshot;
+	}
+
+	resetTransform() {
+		if (!this.instance) return;
+
+		this.prevTransform = this.instance.style.transform;
+		this.instance.style.transform = 'none';
+	}
+
+	restoreTransform() {
+		if (!this.instance || this.prevTransform === undefined) return;
+
+		this.instance.style.transform = this.prevTransform;
+		this.prevTransform = undefined;
+	}
+
+	updateLayout() {
+		if (!this.instance) return;
+
+		this.visualElement.notify('BeforeLayoutMeasure', this.layout);
+
+		this.prevLayout = this.layout;
+		this.layout = measurePageBox(this.instance);
+
+		this.visualElement.notify('LayoutMeasure', this.layout, this.prevLayout);
+	}
+
+	notifyLayoutUpdate(snapshot: Box | undefined, shouldAnimate: boolean) {
+		const { layout, prevLayout, resumeSnapshot } = this;
+
+		/**
+		 * If we've been promoted to the lead of a shared layout, animate from the
+		 * previous lead rather than our own previous layout.
+		 */
+		const isSharedTransition = Boolean(resumeSnapshot);
+		if (resumeSnapshot) {
+			snapshot = resumeSnapshot;
+			this.resumeSnapshot = undefined;
+		}
+
+		if (!layout || !snapshot || (!prevLayout && !isSharedTransition)) return;
+
+		const hasLayoutChanged = !prevLayout || !boxEqualsRounded(prevLayout, layout);
+
+		/**
+		 * Adjust the snapshot to animate only the requested properties.
+		 */
+		const { animationType } = this;
+
+		if (animationType === 'size') {
+			eachAxis((axis) => {
+				const axisSnapshot = snapshot[axis];
+				const length = calcLength(axisSnapshot);
+				axisSnapshot.min = layout[axis].min;
+				axisSnapshot.max = axisSnapshot.min + length;
+			});
+		} else if (animationType === 'position') {
+			eachAxis((axis) => {
+				const axisSnapshot = snapshot[axis];
+				const length = calcLength(layout[axis]);
+				axisSnapshot.max = axisSnapshot.min + length;
+			});
+		}
+
+		const delta = createDelta();
+		calcBoxDelta(delta, layout, snapshot);
+
+		const { layout: isLayoutAnimationEnabled, layoutId } = this.visualElement.getProps();
+
+		if (
+			(hasLayoutChanged || isSharedTransition) &&
+			shouldAnimate &&
+			(isLayoutAnimationEnabled || layoutId) &&
+			!this.isAnimationBlocked
+		) {
+			this.startAnimation(snapshot);
+		} else if (hasLayoutChanged) {
+			/**
+			 * If the layout changed without animating, jump straight to it.
+			 */
+			this.finishAnimation();
+		}
+
+		this.notifyListeners('didUpdate', { layout, snapshot, delta, hasLayoutChanged });
+	}
+
+	startAnimation(origin: Box) {
+		this.stopAnimation();
+		this.releaseFollow();
+
+		/**
+		 * If the previous lead is still on screen, for instance while it's animating
+		 * out, crossfade between the two as they both animate into our new layout.
+		 */
+		const { resumingFrom } = this;
+		const { layoutCrossfade = true } = this.visualElement.getProps();
+
+		if (resumingFrom && resumingFrom.instance && resumingFrom.instance.isConnected && layoutCrossfade) {
+			resumingFrom.stopAnimation();
+			this.follow = resumingFrom;
+		}
+
+		this.resumingFrom = undefined;
+
+		this.animationOrigin = origin;
+		this.target = createBox();
+		this.setAnimationProgress(0);
+
+		/**
+		 * When reduced motion is preferred, jump to the new layout but still notify
+		 * the animation lifecycle so listeners behave as usual.
+		 */
+		const layoutTransition: Transition = this.visualElement.shouldReduceValueMotion(layoutKey)
+			? { type: false }
+			: this.visualElement.getDefaultTransition() || defaultLayoutTransition;
+
+		this.visualElement.notify('LayoutAnimationStart');
+		this.notifyListeners('animationStart');
+
+		this.currentAnimation = animateSingleValue(0, animationTarget, {
+			...getValueTransition(layoutTransition, 'layout'),
+			onUpdate: (latest: number) => this.setAnimationProgress(latest / animationTarget),
+			onComplete: () => {
+				this.finishAnimation();
+				this.visualElement.notify('LayoutAnimationComplete');
+				this.notifyListeners('animationComplete');
+			},
+		});
+	}
+
+	setAnimationProgress(progress: number) {
+		if (!this.target || !this.animationOrigin || !this.layout) return;
+
+		mixBox(this.target, this.animationOrigin, this.layout, progress);
+
+		if (this.follow) {
+			this.crossfadeOpacity = crossfadeInOpacity(progress);
+			this.follow.setFollowTarget(this.target, crossfadeOutOpacity(progress));
+		}
+
+		projectionTree.scheduleUpdateProjection();
+	}
+
+	/**
+	 * Project this node into the box of the lead it's crossfading out from.
+	 */
+	private setFollowTarget(box: Box, opacity: number) {
+		if (!this.target) this.target = createBox();
+
+		copyBoxInto(this.target, box);
+		this.crossfadeOpacity = opacity;
+	}
+
+	private releaseFollow() {
+		const { follow } = this;
+
+		if (follow) {
+			follow.target = undefined;
+			follow.crossfadeOpacity = undefined;
+			follow.scheduleRender();
+		}
+
+		this.follow = undefined;
+		this.crossfadeOpacity = undefined;
+	}
+
+	stopAnimation() {
+		this.currentAnimation && this.currentAnimation.stop();
+		this.currentAnimation = undefined;
+	}
+
+	finishAnimation() {
+		this.stopAnimation();
+		this.releaseFollow();
+		this.target = undefined;
+		this.animationOrigin = undefined;
+		projectionTree.scheduleUpdateProjection();
+	}
+
+	/**
+	 * Calculate the delta that projects this node from its layout into its target
+	 * box. Ancestors are expected to have calculated their projection already.
+	 */
+	calcProjection() {
+		if (!this.layout) return;
+
+		copyBoxInto(this.layoutCorrected, this.layout);
+		this.treeScale.x = 1;
+		this.treeScale.y = 1;
+
+		for (const node of this.path) {
+			if (!node.layout) continue;
+
+			applyBoxDelta(this.layoutCorrected, node.projectionDelta);
+			this.treeScale.x *= node.projectionDelta.x.scale;
+			this.treeScale.y *= node.projectionDelta.y.scale;
+		}
+
+		calcBoxDelta(this.projectionDelta, this.layoutCorrected, this.target || this.layout);
+	}
+
+	render() {
+		this.visualElement.render();
+	}
+
+	isProjecting() {
+		return !isDeltaZero(this.projectionDelta);
+	}
+
+	/**
+	 * Return the styles needed to project this node, combined with any styles
+	 * built by the `Visual` itself. Only the styles this node overrides are
+	 * returned, so any others set inline are left alone.
+	 */
+	getProjectionStyles(style: ResolvedValues): ResolvedValues | undefined {
+		const isProjecting = Boolean(this.layout) && this.isProjecting();
+		const { crossfadeOpacity } = this;
+
+		/**
+		 * Members of a shared layout that aren't the lead are hidden, unless
+		 * they're crossfading out.
+		 */
+		const isHidden = !this.isLead() && crossfadeOpacity === undefined;
+
+		const styles: ResolvedValues = {};
+
+		if (isProjecting) {
+			const transform = style.transform && style.transform !== 'none' ? String(style.transform) : '';
+			const { projectionDelta, treeScale } = this;
+			const projectionTransform = buildProjectionTransform(projectionDelta, treeScale);
+
+			this.overrideStyle(styles, 'transform', transform ? `${projectionTransform} ${transform}` : projectionTransform);
+			this.overrideStyle(
+				styles,
+				'transformOrigin',
+				`${projectionDelta.x.origin * 100}% ${projectionDelta.y.origin * 100}% 0`,
+			);
+		}
+
+		if (isHidden) this.overrideStyle(styles, 'visibility', 'hidden');
+
+		if (crossfadeOpacity !== undefined) {
+			const opacity = style.opacity ?? (this.getInlineStyle('opacity') || 1);
+			this.overrideStyle(styles, 'opacity', String(Number.parseFloat(String(opacity)) * crossfadeOpacity));
+		}
+
+		/**
+		 * Restore the styles no longer overridden, preferring any built by the `Visual`.
+		 */
+		let key: ProjectedStyle;
+		for (key in this.overriddenStyles) {
+			if (key in styles) continue;
+
+			styles[key] = style[key] ?? this.overriddenStyles[key];
+			delete this.overriddenStyles[key];
+		}
+
+		return styles;
+	}
+
+	/**
+	 * The inline value of a style from before this node overrode it.
+	 */
+	private getInlineStyle(key: ProjectedStyle) {
+		if (key in this.overriddenStyles) return this.overriddenStyles[key]!;
+		return this.instance ? this.instance.style[key] : '';
+	}
+
+	private overrideStyle(styles: ResolvedValues, key: ProjectedStyle, value: string) {
+		this.overriddenStyles[key] = this.getInlineStyle(key);
+		styles[key] = value;
+	}
+}
@@ -0,0 +1,181 @@
+import { addDomEvent } from '../../events/add-dom-event';
+import { frame } from '../../frameloop';
+import { noop } from '../../utils/noop';
+import { pipe } from '../../utils/pipe';
+import { NodeStack } from '../shared/stack';
+import type { ProjectionNode } from './ProjectionNode';
+
+/**
+ * Children, or siblings, added or removed around a node can move it. Other changes
+ * that might affect layout, like those to styles or text, are too frequent to check
+ * for on every mutation, so are only checked for when a node reports it's about to
+ * update, like it does when its `layoutDependency` changes.
+ */
+const observerOptions: MutationObserverInit = { childList: true };
+
+/**
+ * The projection tree keeps track of every mounted `ProjectionNode` in the document.
+ *
+ * Svelte doesn't re-render components when their surroundings change, so rather than
+ * relying on each component to report updates, the tree watches the children and siblings
+ * of every node for mutations that might affect layout. Every node keeps its latest
+ * measured layout, and its current projection, up to date. Together these describe where
+ * the node is on screen right now, so they serve as the snapshot to animate from once a
+ * mutation is observed.
+ */
+export class ProjectionTree {
+	nodes = new Set<ProjectionNode>();
+
+	/**
+	 * The stack of nodes for each `layoutId`.
+	 */
+	sharedNodes = new Map<string, NodeStack>();
+
+	private observer?: MutationObserver;
+
+	private removeListeners: Function = noop;
+
+	add(node: ProjectionNode) {
+		this.nodes.add(node);
+
+		if (this.nodes.size === 1) this.startObserving();
+
+		this.observeNodes();
+		this.scheduleUpdate();
+	}
+
+	remove(node: ProjectionNode) {
+		this.nodes.delete(node);
+
+		if (!this.nodes.size) {
+			this.stopObserving();
+		} else {
+			this.observeNodes();
+			this.scheduleUpdate();
+		}
+	}
+
+	registerSharedNode(layoutId: string, node: ProjectionNode) {
+		if (!this.sharedNodes.has(layoutId)) {
+			this.sharedNodes.set(layoutId, new NodeStack());
+		}
+
+		const stack = this.sharedNodes.get(layoutId)!;
+		stack.add(node);
+		stack.promote(node);
+	}
+
+	getStack(layoutId: string) {
+		return this.sharedNodes.get(layoutId);
+	}
+
+	/**
+	 * Check for layout changes within the next frame, once any pending updates have
+	 * been applied. Updates that don't add or remove elements won't be observed otherwise.
+	 */
+	scheduleUpdate = () => {
+		frame.read(this.didUpdate);
+	};
+
+	/**
+	 * Measure every node and animate those whose layout has changed.
+	 */
+	didUpdate = () => this.measure(true);
+
+	/**
+	 * Measure every node without animating, for instance when the viewport
+	 * has been resized or a scroll container scrolled.
+	 */
+	remeasure = () => this.measure(false);
+
+	scheduleUpdateProjection() {
+		frame.preRender(this.updateProjection, false, true);
+	}
+
+	/**
+	 * Calculate every node's projection from the top of the tree down, as each
+	 * node's projection depends on that of its ancestors, and render the result.
+	 */
+	updateProjection = () => {
+		const nodes = this.getSortedNodes();
+
+		nodes.forEach((node) => node.calcProjection());
+		nodes.forEach((node) => node.render());
+	};
+
+	private measure(shouldAnimate: boolean) {
+		const nodes = this.getSortedNodes().filter((node) => node.instance && node.instance.isConnected);
+
+		if (!nodes.length) return;
+
+		const snapshots = nodes.map((node) => node.getSnapshot());
+
+		/**
+		 * Reset every transform before measuring anything, so all nodes are
+		 * measured within the same layout pass.
+		 */
+		nodes.forEach((node) => node.resetTransform());
+		nodes.forEach((node) => node.updateLayout());
+		nodes.forEach((node) => node.restoreTransform());
+
+		nodes.forEach((node, i) => node.notifyLayoutUpdate(snapshots[i], shouldAnimate));
+
+		/**
+		 * Render synchronously so the new projections are applied before the browser paints.
+		 */
+		this.updateProjection();
+	}
+
+	private getSortedNodes() {
+		return Array.from(this.nodes).sort((a, b) => a.depth - b.depth);
+	}
+
+	private startObserving() {
+		if (typeof MutationObserver === 'undefined') return;
+
+		this.observer = new MutationObserver(this.scheduleUpdate);
+
+		const scheduleRemeasure = () => frame.read(this.remeasure);
+
+		this.removeListeners = pipe(
+			addDomEvent(window, 'resize', scheduleRemeasure),
+			/**
+			 * Layouts are measured relative to the page, so we only need to
+			 * remeasure when scroll containers within the page are scrolled.
+			 */
+			addDomEvent(
+				window,
+				'scroll',
+				(event: Event) => event.target !== document && scheduleRemeasure(),
+				{ capture: true, passive: true }
+			)
+		);
+	}
+
+	private observeNodes() {
+		if (!this.observer) return;
+
+		/**
+		 * Disconnecting discards any pending mutations, so handle them first.
+		 */
+		if (this.observer.takeRecords().length) this.scheduleUpdate();
+		this.observer.disconnect();
+
+		this.nodes.forEach(({ instance }) => {
+			if (!instance) return;
+
+			this.observer!.observe(instance, observerOptions);
+			instance.parentElement && this.observer!.observe(instance.parentElement, observerOptions);
+		});
+	}
+
+	private stopObserving() {
+		this.observer && this.observer.disconnect();
+		this.observer = undefined;
+
+		this.removeListeners();
+		this.removeListeners = noop;
+	}
+}
+
+export const projectionTree = new ProjectionTree();
@@ -0,0 +1,37 @@
+import type { ProjectionNode } from './ProjectionNode';
+
+export interface NodeGroup {
+	add: (node: ProjectionNode) => void;
+	remove: (node: ProjectionNode) => void;
+	dirty: VoidFunction;
+}
+
+const notify = (node: ProjectionNode) => node.willUpdate(false);
+
+/**
+ * A group of `ProjectionNode`s that update together. Whenever one of them is
+ * about to update, or is removed, every node in the group is notified.
+ */
+export function nodeGroup(): NodeGroup {
+	const nodes = new Set<ProjectionNode>();
+	const subscriptions = new WeakMap<ProjectionNode, () => void>();
+
+	const dirtyAll = () => nodes.forEach(notify);
+
+	return {
+		add: (node) => {
+			nodes.add(node);
+			subscriptions.set(node, node.addEventListener('willUpdate', dirtyAll));
+		},
+		remove: (node) => {
+			nodes.delete(node);
+			const unsubscribe = subscriptions.get(node);
+			if (unsubscribe) {
+				unsubscribe();
+				subscriptions.delete(node);
+			}
+			dirtyAll();
+		},
+		dirty: dirtyAll,
+	};
+}
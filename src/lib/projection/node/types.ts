@@ -0,0 +1,19 @@
+import type { Box, Delta } from '../geometry/types';
+
+export type LayoutAnimationType = 'size' | 'position' | 'both';
+
+export interface LayoutUpdateData {
+	layout: Box;
+	snapshot: Box;
+	delta: Delta;
+	hasLayoutChanged: boolean;
+}
+
+export type LayoutUpdateHandler = (data: LayoutUpdateData) => void;
+
+export interface ProjectionEventHandlers {
+	willUpdate: VoidFunction;
+	didUpdate: LayoutUpdateHandler;
+	animationStart: VoidFunction;
+	animationComplete: VoidFunction;
+}
@@ -0,0 +1,56 @@
+import { addUniqueItem, removeItem } from '../../utils/array';
+import type { ProjectionNode } from '../node/ProjectionNode';
+
+/**
+ * Every `ProjectionNode` sharing a `layoutId`. The most recently promoted member
+ * is the lead, which is the only member displayed once any shared layout
+ * animation has finished.
+ */
+export class NodeStack {
+	lead?: ProjectionNode;
+
+	prevLead?: ProjectionNode;
+
+	members: ProjectionNode[] = [];
+
+	add(node: ProjectionNode) {
+		addUniqueItem(this.members, node);
+		node.scheduleRender();
+	}
+
+	remove(node: ProjectionNode) {
+		removeItem(this.members, node);
+
+		if (node === this.prevLead) {
+			this.prevLead = undefined;
+		}
+
+		if (node === this.lead) {
+			const prevLead = this.members[this.members.length - 1];
+
+			if (prevLead) {
+				this.promote(prevLead);
+			}
+		}
+	}
+
+	/**
+	 * Make a node the lead. It'll animate from wherever the previous lead was last
+	 * seen, even if the previous lead has since been removed.
+	 */
+	promote(node: ProjectionNode) {
+		const prevLead = this.lead;
+
+		if (node === prevLead) return;
+
+		this.prevLead = prevLead;
+		this.lead = node;
+
+		node.scheduleRender();
+
+		if (prevLead) {
+			prevLead.scheduleRender();
+			node.resumeFrom(prevLead);
+		}
+	}
+}
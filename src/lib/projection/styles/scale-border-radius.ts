@@ -0,0 +1,42 @@
+import { px } from '../../value/types/numbers/units';
+import type { Axis } from '../geometry/types';
+import type { ScaleCorrectorDefinition } from './types';
+
+export function pixelsToPercent(pixels: number, axis: Axis): number {
+	if (axis.max === axis.min) return 0;
+	return (pixels / (axis.max - axis.min)) * 100;
+}
+
+/**
+ * We always correct borderRadius as a percentage rather than pixels to reduce paints.
+ * For example, if you are projecting a box that is 100px wide with a 10px borderRadius
+ * into a box that is 200px wide with a 20px borderRadius, that is actually a 10%
+ * borderRadius in both states. If we animate between the two in pixels that will trigger
+ * a paint each time. If we animate between the two in percentage we'll avoid a paint.
+ *
+ * Percentages are already relative to the element's own size, so they scale with it
+ * and are left as they are.
+ */
+export const correctBorderRadius: ScaleCorrectorDefinition = {
+	correct: (latest, node) => {
+		const box = node.target || node.layout;
+		if (!box) return latest;
+
+		/**
+		 * If latest is a string, if it's a percentage we can return immediately as it's
+		 * going to be stretched appropriately. Otherwise, if it's a pixel, convert it to a number.
+		 */
+		if (typeof latest === 'string') {
+			if (px.test(latest)) {
+				latest = Number.parseFloat(latest);
+			} else {
+				return latest;
+			}
+		}
+
+		const x = pixelsToPercent(latest, box.x);
+		const y = pixelsToPercent(latest, box.y);
+
+		return `${x}% ${y}%`;
+	},
+};
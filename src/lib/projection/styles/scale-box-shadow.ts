@@ -0,0 +1,69 @@
+import { mixNumber } from '../../utils/mix/number';
+import { complex } from '../../value/types/complex';
+import type { ScaleCorrectorDefinition } from './types';
+
+export const correctBoxShadow: ScaleCorrectorDefinition = {
+	correct: (latest, { treeScale, projectionDelta }) => {
+		// Calculate the overall context scale
+		const xScale = projectionDelta.x.scale * treeScale.x;
+		const yScale = projectionDelta.y.scale * treeScale.y;
+
+		/**
+		 * Ideally we'd correct x and y scales individually, but because blur and
+		 * spread apply to both we have to take a scale average and apply that instead.
+		 * We could potentially improve the outcome of this by incorporating the ratio between
+		 * the two scales.
+		 */
+		const averageScale = mixNumber(xScale, yScale, 0.5);
+
+		return splitShadows(String(latest))
+			.map((original) => {
+				const shadow = complex.parse(original);
+
+				if (shadow.length > 5) return original;
+
+				const template = complex.createTransformer(original);
+				const offset = typeof shadow[0] !== 'number' ? 1 : 0;
+
+				// Scale x/y
+				(shadow[0 + offset] as number) /= xScale;
+				(shadow[1 + offset] as number) /= yScale;
+
+				// Blur
+				if (typeof shadow[2 + offset] === 'number') (shadow[2 + offset] as number) /= averageScale;
+
+				// Spread
+				if (typeof shadow[3 + offset] === 'number') (shadow[3 + offset] as number) /= averageScale;
+
+				return template(shadow);
+			})
+			.join(', ');
+	},
+};
+
+/**
+ * Split a list of shadows on the commas between them, rather than those within
+ * their colors.
+ */
+function splitShadows(value: string) {
+	const shadows: string[] = [];
+	let depth = 0;
+	let start = 0;
+
+	for (let i = 0; i < value.length; i++) {
+		const char = value[i];
+
+		if (char === '(') {
+			depth++;
+		} else if (char === ')') {
+			depth--;
+		} else if (char === ',' && !depth) {
+			shadows.push(value.slice(start, i).trim());
+			start = i + 1;
+		}
+	}
+
+	shadows.push(value.slice(start).trim());
+
+	return shadows;
+}
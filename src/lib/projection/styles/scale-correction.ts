@@ -0,0 +1,19 @@
+import { isCSSVariableName } from '../../render/dom/utils/is-css-variable';
+import type { ScaleCorrectorMap } from './types';
+
+export const scaleCorrectors: ScaleCorrectorMap = {};
+
+/**
+ * Register styles that need correcting while an element is being scaled by
+ * a layout animation.
+ *
+ * @public
+ */
+export function addScaleCorrector(correctors: ScaleCorrectorMap) {
+	for (const key in correctors) {
+		scaleCorrectors[key] = correctors[key];
+		if (isCSSVariableName(key)) {
+			scaleCorrectors[key].isCSSVariable = true;
+		}
+	}
+}
@@ -0,0 +1,17 @@
+import type { ProjectionNode } from '../node/ProjectionNode';
+
+export type ScaleCorrector = (latest: string | number, node: ProjectionNode) => string | number;
+
+export interface ScaleCorrectorDefinition {
+	correct: ScaleCorrector;
+	/**
+	 * Apply the corrected value to these styles rather than the corrected
+	 * style itself, for instance to expand a shorthand into its longhands.
+	 */
+	applyTo?: string[];
+	isCSSVariable?: boolean;
+}
+
+export interface ScaleCorrectorMap {
+	[key: string]: ScaleCorrectorDefinition;
+}
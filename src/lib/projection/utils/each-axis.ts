@@ -0,0 +1,5 @@
+type Callback = (axis: 'x' | 'y') => void;
+
+export function eachAxis(callback: Callback) {
+	return [callback('x'), callback('y')];
+}
\ No newline at end of file
@@ -0,0 +1,23 @@
+import { convertBoundingBoxToBox, transformBoxPoints } from '../geometry/conversion';
+import { translateAxis } from '../geometry/delta-apply';
+import type { TransformPoint } from '../geometry/types';
+
+export function measureViewportBox(instance: Element, transformPoint?: TransformPoint) {
+	return convertBoundingBoxToBox(transformBoxPoints(instance.getBoundingClientRect(), transformPoint));
+}
+
+/**
+ * Measure an element's box in page coordinates, by offsetting its viewport
+ * box by the current scroll position.
+ */
+export function measurePageBox(element: Element, transformPagePoint?: TransformPoint) {
+	const viewportBox = measureViewportBox(element, transformPagePoint);
+	const window = element.ownerDocument.defaultView;
+
+	if (window) {
+		translateAxis(viewportBox.x, window.scrollX);
+		translateAxis(viewportBox.y, window.scrollY);
+	}
+
+	return viewportBox;
+}
\ No newline at end of file
@@ -15,8 +15,17 @@ import { complex } from "../value/types/complex";
 import { getAnimatableNone } from "./dom/value-types/animatable-none";
 import { findValueType } from "./dom/value-types/find";
 import { resolveVariantFromProps } from "./utils/resolve-variants";
+import { isControllingVariants, isVariantNode } from "./utils/is-controlling-variants";
 import type { FeatureDefinitions } from "../motion/features/types";
 import { featureDefinitions } from "../motion/features/definitions";
+import type { PresenceContextProps } from "../context/PresenceContext";
+import type { LayoutGroupContextProps } from "../context/LayoutGroupContext";
+import { defaultMotionConfig, type MotionConfigContextProps } from "../context/MotionConfigContext";
+import { initPrefersReducedMotion } from "../utils/reduced-motion";
+import { hasReducedMotionListener, prefersReducedMotion } from "../utils/reduced-motion/state.svelte";
+import { shouldReduceValueMotion } from "../utils/reduced-motion/policy";
+import type { ProjectionNode } from "../projection/node/ProjectionNode";
+import { visualElementStore } from "./store.svelte";
 
 const propEventHandlers = [
 	'AnimationStart',
@@ -76,19 +85,36 @@ export abstract class Visual<
 	abstract renderInstance(
 		instance: Instance,
 		renderState: RenderState,
-		styleProp?: MotionStyle
+		styleProp?: MotionStyle,
+		projection?: ProjectionNode
 	): void
 
+	/**
+	 * Compare the position of two instances within the tree. Used to order
+	 * variant children, ie for staggering.
+	 */
+	abstract sortInstanceNodePosition(a: Instance, b: Instance): number
+
 	/**
 	 * A reference to the current underlying Instance, e.g. a HTMLElement
 	 * or Three.Mesh etc.
 	 */
 	current: Instance | null = null;
 
+	/**
+	 * The parent VisualElement, provided by the closest ancestor `motion` component.
+	 */
+	parent: Visual<unknown> | undefined;
+
     /**
 	 * The depth of this VisualElement within the overall VisualElement tree.
 	 */
-	// depth: number;
+	depth: number;
+
+	/**
+	 * The layout projection node, hydrated by the layout Feature.
+	 */
+	projection?: ProjectionNode;
 
 	/**
 	 * The current render state of this VisualElement. Defined by inherting VisualElements.
@@ -103,12 +129,20 @@ export abstract class Visual<
 
     /**
      * Decides whether this VisualElement should animate in reduced motion
-     * mode.
-     *
-     * TODO: This is currently set on every individual VisualElement but feels
-     * like it could be set globally.
+     * mode. This is read whenever an animation starts, so it follows changes
+     * to both the device preference and the closest `MotionConfig`.
      */
-    shouldReduceMotion: boolean | null = null
+    get shouldReduceMotion(): boolean | null {
+        const { reducedMotion } = this.motionConfig;
+
+        if (reducedMotion === 'never') {
+            return false;
+        } else if (reducedMotion === 'always') {
+            return true;
+        } else {
+            return prefersReducedMotion.current;
+        }
+    }
 
     /**
      * Normally, if a component is controlled by a parent's variants, it can
@@ -126,6 +160,27 @@ export abstract class Visual<
      */
     blockInitialAnimation: boolean
 
+	/**
+	 * The current presence context, provided by the closest `AnimatePresence`.
+	 */
+	presenceContext: PresenceContextProps | null
+
+	/**
+	 * The presence context as it was on the previous update, so features can
+	 * detect when this component has been marked for removal.
+	 */
+	prevPresenceContext?: PresenceContextProps | null
+
+	/**
+	 * The layout group context, provided by the closest `LayoutGroup`.
+	 */
+	layoutGroup?: LayoutGroupContextProps
+
+	/**
+	 * The configuration provided by the closest `MotionConfig`.
+	 */
+	motionConfig: MotionConfigContextProps
+
 	/**
 	 * A map of all motion values attached to this visual element. Motion
 	 * values are source of truth for any given animated value. A motion
@@ -138,6 +193,26 @@ export abstract class Visual<
 	 */
 	animationState?: AnimationState;
 
+	/**
+	 * Whether this visual sets its own variant labels, rather than inheriting them.
+	 */
+	isControllingVariants = false;
+
+	/**
+	 * Whether this visual takes part in variant propagation.
+	 */
+	isVariantNode = false;
+
+	/**
+	 * The visuals whose animations are orchestrated by this visual's variants.
+	 */
+	variantChildren?: Set<Visual<unknown>>;
+
+	/**
+	 * Remove this visual from its closest variant ancestor's `variantChildren`.
+	 */
+	private removeFromVariantTree: VoidFunction | undefined = undefined;
+
     KeyframeResolver = KeyframeResolver
 
 	/**
@@ -204,9 +279,13 @@ export abstract class Visual<
 
 	constructor(
 		{
+			parent,
 			props,
 			visualState,
-            blockInitialAnimation
+			presenceContext,
+			layoutGroup,
+            blockInitialAnimation,
+			motionConfig = defaultMotionConfig
 		}: VisualOptions<Instance, RenderState>,
 		options: Options = {} as any
 	) {
@@ -215,11 +294,22 @@ export abstract class Visual<
         this.baseTarget = {...latestValues};
         this.initialValues = props.initial ? { ...latestValues } : {}
 		this.renderState = renderState;
+		this.parent = parent;
+		this.depth = parent ? parent.depth + 1 : 0;
 		this.props = props;
 		this.options = options;
+		this.presenceContext = presenceContext;
+		this.layoutGroup = layoutGroup;
+		this.motionConfig = motionConfig;
         this.blockInitialAnimation = Boolean(blockInitialAnimation)
 
-        this.manuallyAnimateOnMount = true
+        this.isControllingVariants = isControllingVariants(props)
+        this.isVariantNode = isVariantNode(props)
+        if (this.isVariantNode) {
+            this.variantChildren = new Set()
+        }
+
+        this.manuallyAnimateOnMount = Boolean(parent && parent.current)
 
 		// this.#subscribe = createSubscriber((update) => {
 		// 	console.log('subscribe')
@@ -240,18 +330,45 @@ export abstract class Visual<
 		// this.#subscribe();
 		this.current = instance;
 
-		this.update(this.props);
+		visualElementStore.set(instance, this);
+
+		if (this.motionConfig.reducedMotion === 'user' && !hasReducedMotionListener.current) {
+			initPrefersReducedMotion();
+		}
+
+		/**
+		 * Register with the closest ancestor controlling variants, so it can
+		 * propagate its variant changes to this visual.
+		 */
+		if (this.parent && this.isVariantNode && !this.isControllingVariants && this.props.inherit !== false) {
+			this.removeFromVariantTree?.();
+			this.removeFromVariantTree = this.parent.addVariantChild(this);
+		}
+
+		this.update(this.props, this.presenceContext);
 	}
 
 	unmount() {
+		this.removeFromVariantTree?.();
+		this.removeFromVariantTree = undefined;
 		cancelFrame(this.notifyUpdate);
 		cancelFrame(this.render);
         this.valueSubscriptions.forEach((remove) => remove())
         this.valueSubscriptions.clear()
 
+		for (const key in this.features) {
+			const feature = this.features[key as keyof typeof this.features];
+			if (feature) {
+				feature.unmount();
+				feature.isMounted = false;
+			}
+		}
+
 		for (const key in this.events) {
 			this.events[key].clear();
 		}
+
+		if (this.current) visualElementStore.delete(this.current);
 		this.current = null;
 	}
 
@@ -324,7 +441,7 @@ export abstract class Visual<
 	render = () => {
 		if (!this.current) return;
 		this.triggerBuild();
-		this.renderInstance(this.current, this.renderState, this.props.style);
+		this.renderInstance(this.current, this.renderState, this.props.style, this.projection);
 	};
 
 	private renderScheduledAt = 0.0;
@@ -340,7 +457,7 @@ export abstract class Visual<
 	 * Update the provided props. Ensure any newly-added motion values are
 	 * added to our map, old ones removed, and listeners updated.
 	 */
-	update(props: MotionProps) {
+	update(props: MotionProps, presenceContext: PresenceContextProps | null) {
 		if (props.transformTemplate || this.props.transformTemplate) {
 			this.scheduleRender();
 		}
@@ -348,6 +465,9 @@ export abstract class Visual<
 		this.prevProps = this.props;
 		this.props = props;
 
+		this.prevPresenceContext = this.presenceContext;
+		this.presenceContext = presenceContext;
+
 		/**
 		 * Update prop event handlers ie onAnimationStart, onAnimationComplete
 		 */
@@ -368,6 +488,31 @@ export abstract class Visual<
 		// this.#update?.();
 	}
 
+	/**
+	 * Returns the closest variant node in the tree starting from this visual.
+	 */
+	getClosestVariantNode(): Visual<unknown> | undefined {
+		return this.isVariantNode ? (this as Visual<unknown>) : this.parent ? this.parent.getClosestVariantNode() : undefined;
+	}
+
+	/**
+	 * Add a child visual to our set of variant children.
+	 */
+	addVariantChild(child: Visual<unknown>) {
+		const closestVariantNode = this.getClosestVariantNode();
+
+		if (closestVariantNode) {
+			closestVariantNode.variantChildren && closestVariantNode.variantChildren.add(child);
+			return () => closestVariantNode.variantChildren!.delete(child);
+		}
+	}
+
+	sortNodePosition(other: Visual<Instance>) {
+		if (!this.current || !other.current) return 0;
+
+		return this.sortInstanceNodePosition(this.current, other.current);
+	}
+
 	getProps() {
 		return this.props;
 	}
@@ -380,10 +525,21 @@ export abstract class Visual<
 	}
 
 	/**
-	 * Returns the defined default transition on this component.
+	 * Returns the defined default transition on this component, falling back
+	 * to the one provided by the closest `MotionConfig`.
 	 */
 	getDefaultTransition() {
-		return this.props.transition;
+		return this.props.transition ?? this.motionConfig.transition;
+	}
+
+	/**
+	 * Whether the provided value, or `"layout"` for layout animations, should be
+	 * set instantly rather than animated because reduced motion is preferred.
+	 */
+	shouldReduceValueMotion(key: string) {
+		return Boolean(
+			this.shouldReduceMotion && shouldReduceValueMotion(key, this.motionConfig.reducedMotionOverride)
+		);
 	}
 
 	/**
@@ -6,7 +6,7 @@ import { DOMKeyframesResolver } from "./DOMKeyframesResolver";
 import type { DOMVisualOptions } from "./types";
 
 export abstract class DOMVisual<
-    Instance extends HTMLElement = HTMLElement,
+    Instance extends HTMLElement | SVGElement = HTMLElement,
     State extends HTMLRenderState = HTMLRenderState,
     Options extends DOMVisualOptions = DOMVisualOptions
 > extends Visual<Instance, State, Options> {
@@ -14,5 +14,19 @@ export abstract class DOMVisual<
 		return props.style ? (props.style[key as keyof MotionStyle] as string) : undefined;
 	}
 
+	removeValueFromRenderState(key: string, { vars, style }: State): void {
+		delete vars[key];
+		delete style[key];
+	}
+
+	sortInstanceNodePosition(a: Instance, b: Instance): number {
+		/**
+		 * compareDocumentPosition returns a bitmask, by using the bitwise &
+		 * we're returning true if 2 in that bitmask is set to true. 2 is set
+		 * to true if b preceeds a.
+		 */
+		return a.compareDocumentPosition(b) & 2 ? 1 : -1;
+	}
+
 	KeyframeResolver = DOMKeyframesResolver;
 }
\ No newline at end of file
@@ -1,8 +1,14 @@
+import type { Component as SvelteComponent } from "svelte";
 import { HTMLVisual } from "../html/HTMLVisual";
+import { SVGVisual } from "../svg/SVGVisual";
 import type { CreateVisual, VisualOptions } from "../types";
-import { createAnimationState } from "../utils/animation-state";
+import { isSVGComponent } from "./utils/is-svg-component";
 
-export const createDomVisual: CreateVisual<HTMLElement> = (Component: string, options: VisualOptions<HTMLElement>) => {
-	const visual = new HTMLVisual(options, {});
-	return visual;
-}
\ No newline at end of file
+export const createDomVisual: CreateVisual<HTMLElement | SVGElement> = (
+	Component: string | SvelteComponent<any>,
+	options: VisualOptions<HTMLElement | SVGElement>
+) => {
+	return isSVGComponent(Component)
+		? new SVGVisual(options as VisualOptions<SVGElement>, {})
+		: new HTMLVisual(options as VisualOptions<HTMLElement>, {});
+};
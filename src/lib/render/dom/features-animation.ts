@@ -0,0 +1,11 @@
+import { animations } from '../../motion/features/animations';
+import { gestureAnimations } from '../../motion/features/gestures';
+import type { FeatureBundle } from '../../components/LazyMotion/types';
+
+/**
+ * @public
+ */
+export const domAnimation: FeatureBundle = {
+	...animations,
+	...gestureAnimations,
+};
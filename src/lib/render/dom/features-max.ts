@@ -0,0 +1,13 @@
+import { drag } from '../../motion/features/drag';
+import { layout } from '../../motion/features/layout';
+import type { FeatureBundle } from '../../components/LazyMotion/types';
+import { domAnimation } from './features-animation';
+
+/**
+ * @public
+ */
+export const domMax: FeatureBundle = {
+	...domAnimation,
+	...drag,
+	...layout,
+};
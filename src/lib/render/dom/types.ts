@@ -1,5 +1,5 @@
 import type { HTMLMotionComponents } from '../html/types';
-// import type { SVGMotionComponents } from '../svg/types';
+import type { SVGMotionComponents } from '../svg/types';
 
 export interface DOMVisualOptions {
 	/**
@@ -20,4 +20,4 @@ export interface DOMVisualOptions {
 	enableHardwareAcceleration?: boolean;
 }
 
-export type DOMMotionComponents = HTMLMotionComponents // & SVGMotionComponents;
\ No newline at end of file
+export type DOMMotionComponents = HTMLMotionComponents & SVGMotionComponents;
\ No newline at end of file
@@ -0,0 +1,23 @@
+import { isValidMotionProp } from '../../../motion/utils/valid-prop';
+
+/**
+ * Filter the `MotionProps` out of the props passed to a custom component, unless
+ * it's been created with `forwardMotionProps`.
+ */
+export function filterProps(props: Record<string, any>, forwardMotionProps = false) {
+	const filteredProps: Record<string, any> = {};
+
+	for (const key in props) {
+		/**
+		 * MotionValues provided via `values` are consumed by the `Visual`, so
+		 * they're never forwarded.
+		 */
+		if (key === 'values' && typeof props.values === 'object') continue;
+
+		if (forwardMotionProps || !isValidMotionProp(key)) {
+			filteredProps[key] = props[key];
+		}
+	}
+
+	return filteredProps;
+}
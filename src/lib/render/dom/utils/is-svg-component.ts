@@ -0,0 +1,28 @@
+import type { Component as SvelteComponent } from 'svelte';
+import { lowercaseSVGElements } from '../../svg/lowercase-elements';
+
+export function isSVGComponent(Component: string | SvelteComponent<any>) {
+	if (
+		/**
+		 * If it's not a string, it's a custom component. Custom elements
+		 * (with a dash in their name) are always HTML.
+		 */
+		typeof Component !== 'string' ||
+		Component.includes('-')
+	) {
+		return false;
+	} else if (
+		/**
+		 * If it's in our list of lowercase SVG tags, it's an SVG component
+		 */
+		lowercaseSVGElements.indexOf(Component) > -1 ||
+		/**
+		 * If it contains a capital letter, it's an SVG component
+		 */
+		/[A-Z]/u.test(Component)
+	) {
+		return true;
+	}
+
+	return false;
+}
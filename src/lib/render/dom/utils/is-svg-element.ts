@@ -0,0 +1,7 @@
+/**
+ * Whether an element should be rendered by `SVGVisual`. The root `<svg>` is
+ * styled like any other element, so it's excluded.
+ */
+export function isSVGElement(element: Element): element is SVGElement {
+	return element instanceof SVGElement && element.tagName !== 'svg';
+}
@@ -0,0 +1,29 @@
+import type { AnimationScope, ElementOrSelector } from '../../../animation/types';
+import { invariant } from '../../../utils/errors';
+
+export type SelectorCache = {
+	[key: string]: NodeListOf<Element>;
+};
+
+export function resolveElements(
+	elements: ElementOrSelector,
+	scope?: AnimationScope,
+	selectorCache?: SelectorCache
+): Element[] {
+	if (elements instanceof Element) {
+		return [elements];
+	} else if (typeof elements === 'string') {
+		let root: Document | Element = document;
+
+		if (scope) {
+			invariant(Boolean(scope.current), 'Scope provided, but no element detected.');
+			root = scope.current;
+		}
+
+		const nodes = selectorCache?.[elements] ?? root.querySelectorAll(elements);
+
+		return nodes ? Array.from(nodes) : [];
+	}
+
+	return Array.from(elements);
+}
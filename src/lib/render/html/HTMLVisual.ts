@@ -30,7 +30,7 @@ export class HTMLVisual extends DOMVisual<HTMLElement, HTMLRenderState, DOMVisua
 	}
 
 	build(renderState: HTMLRenderState, latestValues: ResolvedValues, props: MotionProps) {
-		buildHTMLStyles(renderState, latestValues, props.transformTemplate);
+		buildHTMLStyles(renderState, latestValues, props.transformTemplate, this.projection);
 	}
 
 	renderInstance = renderHTML;
@@ -0,0 +1,9 @@
+import { makeUseVisualState } from '../../motion/utils/use-visual-state';
+import type { HTMLRenderState } from './types';
+import { createHtmlRenderState } from './utils/create-render-state';
+
+export const htmlMotionConfig = {
+	useVisualState: makeUseVisualState<HTMLElement, HTMLRenderState>({
+		createRenderState: createHtmlRenderState,
+	}),
+};
@@ -6,14 +6,23 @@ import { transformProps } from "../transform";
 import { getValueAsType } from '../../../dom/value-types/get-as-type';
 import { numberValueTypes } from '../../../dom/value-types/number';
 import { buildTransform } from "./transform/build";
+import type { ProjectionNode } from "../../../../projection/node/ProjectionNode";
+import { scaleCorrectors } from "../../../../projection/styles/scale-correction";
 
 export function buildHTMLStyles(
 	state: HTMLRenderState,
 	latestValues: ResolvedValues,
-	transformTemplate?: MotionProps['transformTemplate']
+	transformTemplate?: MotionProps['transformTemplate'],
+	projection?: ProjectionNode
 ) {
 	const { style, vars, transformOrigin } = state;
 
+	/**
+	 * While a layout animation scales this element, styles like `borderRadius`
+	 * and `boxShadow` are scaled along with it and need correcting.
+	 */
+	const isProjecting = Boolean(projection && projection.layout && projection.isProjecting());
+
 	// Track whether we encounter any transform or transformOrigin values.
 	let hasTransform = false;
 	let hasTransformOrigin = false;
@@ -31,6 +40,29 @@ export function buildHTMLStyles(
 			// If this is a transform, flag to enable further transform processing
 			hasTransform = true;
 			continue;
+		} else if (scaleCorrectors[key]) {
+			const { correct, applyTo, isCSSVariable } = scaleCorrectors[key];
+			const target = isCSSVariable ? vars : style;
+
+			if (isProjecting) {
+				const corrected = getValueAsType(correct(value, projection!), numberValueTypes[key]);
+
+				if (applyTo) {
+					for (const applyKey of applyTo) target[applyKey] = corrected;
+				} else {
+					target[key] = corrected;
+				}
+			} else {
+				/**
+				 * Writing the shorthand resets its longhands, so drop any corrected
+				 * longhands left over from when this element was projecting.
+				 */
+				if (applyTo) {
+					for (const applyKey of applyTo) delete target[applyKey];
+				}
+				target[key] = getValueAsType(value, numberValueTypes[key]);
+			}
+			continue;
 		} else if (isCSSVariableName(key)) {
 			vars[key] = value;
 			continue;
@@ -1,15 +1,17 @@
 import type { MotionStyle } from "../../../motion/types";
+import type { ProjectionNode } from "../../../projection/node/ProjectionNode";
 import type { HTMLRenderState } from "../types";
 
 export function renderHTML(
-	element: HTMLElement,
+	element: HTMLElement | SVGElement,
 	{ style, vars }: HTMLRenderState,
 	styleProp?: MotionStyle,
+	projection?: ProjectionNode
 ) {
-	Object.assign(element.style, style);
+	Object.assign(element.style, style, projection && projection.getProjectionStyles(style));
 
 	// Loop over any CSS variables and assign those.
 	for (const key in vars) {
 		element.style.setProperty(key, vars[key] as string);
 	}
-}
\ No newline at end of file
+}
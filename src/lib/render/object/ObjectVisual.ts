@@ -0,0 +1,48 @@
+import type { MotionProps } from '../../motion/types';
+import type { ResolvedValues } from '../types';
+import { Visual } from '../Visual.svelte';
+
+interface ObjectRenderState {
+	output: ResolvedValues;
+}
+
+function isObjectKey(key: string, object: Object): key is keyof Object {
+	return key in object;
+}
+
+/**
+ * A `Visual` that renders its values back onto a plain JavaScript object,
+ * so `animate()` can animate any object's numeric and string properties.
+ */
+export class ObjectVisual extends Visual<Object, ObjectRenderState> {
+	readValueFromInstance(instance: Object, key: string) {
+		if (isObjectKey(key, instance)) {
+			const value = instance[key];
+			if (typeof value === 'string' || typeof value === 'number') {
+				return value;
+			}
+		}
+
+		return undefined;
+	}
+
+	getBaseTargetFromProps(_props: MotionProps, _key: string) {
+		return undefined;
+	}
+
+	removeValueFromRenderState(key: string, renderState: ObjectRenderState): void {
+		delete renderState.output[key];
+	}
+
+	build(renderState: ObjectRenderState, latestValues: ResolvedValues) {
+		Object.assign(renderState.output, latestValues);
+	}
+
+	renderInstance(instance: Object, { output }: ObjectRenderState) {
+		Object.assign(instance, output);
+	}
+
+	sortInstanceNodePosition() {
+		return 0;
+	}
+}
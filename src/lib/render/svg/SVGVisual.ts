@@ -0,0 +1,42 @@
+import type { MotionProps } from "../../motion/types";
+import type { MotionValue } from "../../value";
+import { DOMVisual } from "../dom/DOMVisual";
+import type { DOMVisualOptions } from "../dom/types";
+import { camelToDash } from "../dom/utils/camel-to-dash";
+import { getDefaultValueType } from "../dom/value-types/defaults";
+import { transformProps } from "../html/utils/transform";
+import type { ResolvedValues } from "../types";
+import type { SVGRenderState } from "./types";
+import { buildSVGAttrs } from "./utils/build-attrs";
+import { camelCaseAttributes } from "./utils/camel-case-attrs";
+import { isSVGTag } from "./utils/is-svg-tag";
+import { renderSVG } from "./utils/render";
+
+export class SVGVisual extends DOMVisual<SVGElement, SVGRenderState, DOMVisualOptions> {
+	isSVGTag = false;
+
+	getBaseTargetFromProps(props: MotionProps, key: string): string | number | MotionValue<any> | undefined {
+		return props[key as keyof MotionProps];
+	}
+
+	readValueFromInstance(instance: SVGElement, key: string): string | number | null | undefined {
+		if (transformProps.has(key)) {
+			const defaultType = getDefaultValueType(key);
+			return defaultType ? defaultType.default || 0 : 0;
+		}
+
+		key = !camelCaseAttributes.has(key) ? camelToDash(key) : key;
+		return instance.getAttribute(key);
+	}
+
+	build(renderState: SVGRenderState, latestValues: ResolvedValues, props: MotionProps) {
+		buildSVGAttrs(renderState, latestValues, this.isSVGTag, props.transformTemplate);
+	}
+
+	renderInstance = renderSVG;
+
+	mount(instance: SVGElement) {
+		this.isSVGTag = isSVGTag(instance.tagName);
+		super.mount(instance);
+	}
+}
@@ -0,0 +1,40 @@
+import { frame } from '../../frameloop';
+import { makeUseVisualState } from '../../motion/utils/use-visual-state';
+import type { SVGRenderState } from './types';
+import { buildSVGAttrs } from './utils/build-attrs';
+import { createSvgRenderState } from './utils/create-render-state';
+import { isSVGTag } from './utils/is-svg-tag';
+import { renderSVG } from './utils/render';
+
+export const svgMotionConfig = {
+	useVisualState: makeUseVisualState<SVGElement, SVGRenderState>({
+		createRenderState: createSvgRenderState,
+		onMount: (props, instance, { renderState, latestValues }) => {
+			/**
+			 * Measure the element's bounding box so transforms can be applied
+			 * around its own origin, rather than the origin of the SVG canvas.
+			 */
+			frame.read(() => {
+				try {
+					renderState.dimensions =
+						typeof (instance as SVGGraphicsElement).getBBox === 'function'
+							? (instance as SVGGraphicsElement).getBBox()
+							: (instance.getBoundingClientRect() as DOMRect);
+				} catch (e) {
+					// Most likely trying to measure an unrendered element under Firefox
+					renderState.dimensions = {
+						x: 0,
+						y: 0,
+						width: 0,
+						height: 0,
+					};
+				}
+			});
+
+			frame.render(() => {
+				buildSVGAttrs(renderState, latestValues, isSVGTag(instance.tagName), props.transformTemplate);
+				renderSVG(instance, renderState);
+			});
+		},
+	}),
+};
@@ -0,0 +1,31 @@
+/**
+ * We keep these listed separately as we use the lowercase tag names as part
+ * of the runtime bundle to detect SVG components
+ */
+export const lowercaseSVGElements = [
+	'animate',
+	'circle',
+	'defs',
+	'desc',
+	'ellipse',
+	'g',
+	'image',
+	'line',
+	'filter',
+	'marker',
+	'mask',
+	'metadata',
+	'path',
+	'pattern',
+	'polygon',
+	'polyline',
+	'rect',
+	'stop',
+	'switch',
+	'symbol',
+	'svg',
+	'text',
+	'tspan',
+	'use',
+	'view',
+];
@@ -0,0 +1,8 @@
+import type { DOMAttributes, SVGAttributes as SvelteSVGAttributes } from 'svelte/elements';
+
+/**
+ * Every attribute that can be set on an SVG element, excluding event handlers.
+ *
+ * @public
+ */
+export type SVGAttributes = Omit<SvelteSVGAttributes<SVGElement>, keyof DOMAttributes<SVGElement> | 'children'>;
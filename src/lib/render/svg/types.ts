@@ -0,0 +1,44 @@
+import type { SVGAttributes } from 'svelte/elements';
+import type { MotionProps } from '../../motion/types';
+import type { ForwardRefComponent, HTMLRenderState } from '../html/types';
+import type { ResolvedValues } from '../types';
+import type { SVGElements } from './supported-elements';
+
+export interface SVGRenderState extends HTMLRenderState {
+	/**
+	 * A mutable record of attributes we want to apply directly to the rendered Element
+	 * every frame. We use a mutable data structure to reduce GC during animations.
+	 */
+	attrs: ResolvedValues;
+
+	/**
+	 * Measured dimensions of the SVG element to be used to calculate a transform-origin.
+	 */
+	dimensions?: Dimensions;
+}
+
+export type Dimensions = {
+	x: number;
+	y: number;
+	width: number;
+	height: number;
+};
+
+type AttributesWithoutMotionProps<Attributes> = Omit<Attributes, keyof MotionProps>;
+
+/**
+ * @public
+ */
+export type SVGMotionProps<Tag extends keyof SVGElements> = AttributesWithoutMotionProps<
+	SVGAttributes<SVGElements[Tag]>
+> &
+	MotionProps;
+
+/**
+ * Motion-optimised versions of the SVG components.
+ *
+ * @public
+ */
+export type SVGMotionComponents = {
+	[K in keyof SVGElements]: ForwardRefComponent<SVGElements[K], SVGMotionProps<K>>;
+};
@@ -0,0 +1,28 @@
+/**
+ * A set of attribute names that are always read/written as camel case.
+ */
+export const camelCaseAttributes = new Set([
+	'baseFrequency',
+	'diffuseConstant',
+	'kernelMatrix',
+	'kernelUnitLength',
+	'keySplines',
+	'keyTimes',
+	'limitingConeAngle',
+	'markerHeight',
+	'markerWidth',
+	'numOctaves',
+	'targetX',
+	'targetY',
+	'surfaceScale',
+	'specularConstant',
+	'specularExponent',
+	'stdDeviation',
+	'tableValues',
+	'viewBox',
+	'gradientTransform',
+	'pathLength',
+	'startOffset',
+	'textLength',
+	'lengthAdjust',
+]);
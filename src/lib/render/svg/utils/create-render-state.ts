@@ -0,0 +1,7 @@
+import { createHtmlRenderState } from '../../html/utils/create-render-state';
+import type { SVGRenderState } from '../types';
+
+export const createSvgRenderState = (): SVGRenderState => ({
+	...createHtmlRenderState(),
+	attrs: {},
+});
@@ -0,0 +1 @@
+export const isSVGTag = (tag: unknown) => typeof tag === 'string' && tag.toLowerCase() === 'svg';
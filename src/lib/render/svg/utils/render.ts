@@ -0,0 +1,22 @@
+import type { MotionStyle } from '../../../motion/types';
+import type { ProjectionNode } from '../../../projection/node/ProjectionNode';
+import { camelToDash } from '../../dom/utils/camel-to-dash';
+import { renderHTML } from '../../html/utils/render';
+import type { SVGRenderState } from '../types';
+import { camelCaseAttributes } from './camel-case-attrs';
+
+export function renderSVG(
+	element: SVGElement,
+	renderState: SVGRenderState,
+	_styleProp?: MotionStyle,
+	projection?: ProjectionNode
+) {
+	renderHTML(element, renderState, undefined, projection);
+
+	for (const key in renderState.attrs) {
+		element.setAttribute(
+			!camelCaseAttributes.has(key) ? camelToDash(key) : key,
+			renderState.attrs[key] as string
+		);
+	}
+}
@@ -0,0 +1,16 @@
+import { px } from '../../../value/types/numbers/units';
+import type { Dimensions } from '../types';
+
+function calcOrigin(origin: number | string, offset: number, size: number) {
+	return typeof origin === 'string' ? origin : px.transform(offset + size * origin);
+}
+
+/**
+ * The SVG transform origin defaults are different to CSS and is less intuitive,
+ * so we use the measured dimensions of the SVG to reconcile these.
+ */
+export function calcSVGTransformOrigin(dimensions: Dimensions, originX: number | string, originY: number | string) {
+	const pxOriginX = calcOrigin(originX, dimensions.x, dimensions.width);
+	const pxOriginY = calcOrigin(originY, dimensions.y, dimensions.height);
+	return `${pxOriginX} ${pxOriginY}`;
+}
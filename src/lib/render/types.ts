@@ -1,4 +1,8 @@
+import type { Component as SvelteComponent } from "svelte";
 import type { AnimationDefinition } from "../animation/types";
+import type { PresenceContextProps } from "../context/PresenceContext";
+import type { LayoutGroupContextProps } from "../context/LayoutGroupContext";
+import type { MotionConfigContextProps } from "../context/MotionConfigContext";
 import type { MotionProps } from "../motion/types";
 import type { VisualState } from "../motion/utils/use-visual-state";
 import type { Axis, Box } from "../projection/geometry/types";
@@ -8,10 +12,11 @@ export type VisualOptions<Instance, RenderState = any> = {
 	visualState: VisualState<Instance, RenderState>;
 	parent?: Visual<unknown>;
 	variantParent?: Visual<unknown>;
-	// presenceContext: PresenceContext | null;
+	presenceContext: PresenceContextProps | null;
+	layoutGroup?: LayoutGroupContextProps;
 	props: MotionProps;
 	blockInitialAnimation?: boolean;
-	// reducedMotionConfig?: ReducedMotionConfig;
+	motionConfig?: MotionConfigContextProps;
 };
 
 /**
@@ -38,16 +43,6 @@ export interface LayoutLifecycles {
     onBeforeLayoutMeasure?(box: Box): void
 
     onLayoutMeasure?(box: Box, prevBox: Box): void
-
-    /**
-     * @internal
-     */
-    onLayoutAnimationStart?(): void
-
-    /**
-     * @internal
-     */
-    onLayoutAnimationComplete?(): void
 }
 
 export interface AnimationLifecycles {
@@ -111,6 +106,6 @@ export interface AnimationLifecycles {
 export type EventProps = LayoutLifecycles & AnimationLifecycles
 
 export type CreateVisual<Instance> = (
-	Component: string, // | Component<{ children: Snippet | Component }>
+	Component: string | SvelteComponent<any>,
 	options: VisualOptions<Instance>
 ) => Visual<Instance>;
\ No newline at end of file
@@ -12,6 +12,7 @@ import type { VisualAnimationOptions } from '../../animation/interfaces/types';
 import type { AnimationDefinition } from '../../animation/types';
 import { animateVisual } from '../../animation/interfaces/visual';
 import type { ResolvedValues } from '../types';
+import { getVariantContext } from './get-variant-context';
 
 export interface AnimationState {
 	animateChanges: (type?: AnimationType) => Promise<any>;
@@ -50,7 +51,7 @@ export function createAnimationState<I>(visual: Visual<I>): AnimationState {
 			const resolved = resolveVariant(
 				visual,
 				definition,
-				// type === 'exit' ? visual.presenceContext?.custom : undefined
+				type === 'exit' ? visual.presenceContext?.custom : undefined
 			);
 
 			if (resolved) {
@@ -82,6 +83,11 @@ export function createAnimationState<I>(visual: Visual<I>): AnimationState {
 	function animateChanges(changedActiveType?: AnimationType) {
 		const { props } = visual;
 
+		/**
+		 * The variant labels inherited from the closest ancestor controlling variants.
+		 */
+		const context = (props.inherit !== false && getVariantContext(visual.parent)) || {};
+
 		/**
 		 * A list of animations that we'll build into as we iterate through the animation
 		 * types. This will get executed at the end of the function.
@@ -116,7 +122,7 @@ export function createAnimationState<I>(visual: Visual<I>): AnimationState {
 		for (let i = 0; i < numAnimationTypes; i++) {
 			const type = reversePriorityOrder[i];
 			const typeState = state[type];
-			const prop = props[type];
+			const prop = props[type] !== undefined ? props[type] : context[type];
 			const propIsVariant = isVariantLabel(prop);
 
 			/**
@@ -133,12 +139,13 @@ export function createAnimationState<I>(visual: Visual<I>): AnimationState {
 			 *
 			 * TODO: Can probably change this to a !isControllingVariants check
 			 */
-			let isInherited = prop !== props[type] && propIsVariant;
+			let isInherited = prop === context[type] && prop !== props[type] && propIsVariant;
 
 			/**
-			 *
+			 * If this component was mounted after its parent, the parent won't trigger
+			 * its initial animation, so it needs to animate itself.
 			 */
-			if (isInherited && isInitialRender) {
+			if (isInherited && isInitialRender && visual.manuallyAnimateOnMount) {
 				isInherited = false;
 			}
 
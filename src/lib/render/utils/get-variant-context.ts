@@ -0,0 +1,37 @@
+import type { Visual } from '../Visual.svelte';
+import { isVariantLabel } from './is-variant-label';
+import { variantProps, type VariantKey } from './variant-props';
+
+export type VariantStateContext = Partial<Record<VariantKey, string | string[] | boolean>>;
+
+/**
+ * Resolve the variant labels a visual inherits from the closest ancestor
+ * that controls variants.
+ */
+export function getVariantContext(visual?: Visual<unknown>): undefined | VariantStateContext {
+	if (!visual) return undefined;
+
+	if (!visual.isControllingVariants) {
+		const context = visual.parent ? getVariantContext(visual.parent) || {} : {};
+
+		const { initial } = visual.props;
+		if (isVariantLabel(initial) || typeof initial === 'boolean') {
+			context.initial = initial;
+		}
+
+		return context;
+	}
+
+	const context: VariantStateContext = {};
+
+	for (let i = 0; i < variantProps.length; i++) {
+		const name = variantProps[i];
+		const prop = visual.props[name];
+
+		if (isVariantLabel(prop) || prop === false) {
+			context[name] = prop;
+		}
+	}
+
+	return context;
+}
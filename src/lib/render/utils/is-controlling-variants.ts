@@ -0,0 +1,23 @@
+import { isAnimationControls } from '../../animation/utils/is-animation-controls';
+import type { MotionProps } from '../../motion/types';
+import { isVariantLabel } from './is-variant-label';
+import { variantProps } from './variant-props';
+
+/**
+ * Whether a component sets its own variant labels, rather than inheriting them
+ * from its parent.
+ */
+export function isControllingVariants(props: MotionProps) {
+	return (
+		isAnimationControls(props.animate) ||
+		variantProps.some((name) => isVariantLabel(props[name as keyof typeof props]))
+	);
+}
+
+/**
+ * Whether a component takes part in variant propagation, either by setting
+ * variant labels or by defining variants for its parent to trigger.
+ */
+export function isVariantNode(props: MotionProps) {
+	return Boolean(isControllingVariants(props) || props.variants);
+}
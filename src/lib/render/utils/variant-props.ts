@@ -10,4 +10,6 @@ export const variantPriorityOrder: AnimationType[] = [
 	'exit',
 ];
 
-export const variantProps = ['initial', ...variantPriorityOrder];
\ No newline at end of file
+export type VariantKey = 'initial' | AnimationType;
+
+export const variantProps: VariantKey[] = ['initial', ...variantPriorityOrder];
\ No newline at end of file
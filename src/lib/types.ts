@@ -7,7 +7,7 @@ import type { SVGAttributes } from 'svelte/elements';
 import type { Properties } from 'csstype';
 import type { Easing } from './easing/types';
 import type { TransformProperties, CustomStyles, SVGPathProperties } from './motion/types';
-import type { VariableKeyframesDefinition } from './animation/types';
+import type { DynamicOption, VariableKeyframesDefinition } from './animation/types';
 
 export type GenericKeyframesTarget<V> = V[] | Array<null | V>;
 
@@ -146,6 +146,9 @@ export interface Orchestration {
 	 *
 	 * The calculated stagger delay will be added to `delayChildren`.
 	 *
+	 * A function created with `stagger()` can be provided to customise where
+	 * the stagger starts from, or to stagger children laid out as a grid.
+	 *
 	 * ```jsx
 	 * const container = {
 	 *   hidden: { opacity: 0 },
@@ -176,7 +179,7 @@ export interface Orchestration {
 	 *
 	 * @public
 	 */
-	staggerChildren?: number;
+	staggerChildren?: number | DynamicOption<number>;
 
 	/**
 	 * The direction in which to stagger children.
@@ -0,0 +1,6 @@
+import type { Visual } from '../render/Visual.svelte';
+
+// Fixes https://github.com/motiondivision/motion/issues/2270
+export const getContextWindow = ({ current }: Visual<Element>) => {
+	return current ? (current.ownerDocument.defaultView as Window & typeof globalThis) : null;
+};
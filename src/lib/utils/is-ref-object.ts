@@ -0,0 +1,5 @@
+import type { MutableRefObject } from './safe-react-types';
+
+export function isRefObject<E = any>(ref: any): ref is MutableRefObject<E> {
+	return ref && typeof ref === 'object' && Object.prototype.hasOwnProperty.call(ref, 'current');
+}
\ No newline at end of file
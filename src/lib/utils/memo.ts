@@ -0,0 +1,8 @@
+export function memo<T>(callback: () => T) {
+	let result: T | undefined;
+
+	return () => {
+		if (result === undefined) result = callback();
+		return result;
+	};
+}
@@ -8,6 +8,8 @@ import { type ComplexValueInfo, type ComplexValues, analyseComplexValue, complex
 import { isCSSVariableToken } from '../../render/dom/utils/is-css-variable';
 import { invisibleValues, mixVisibility } from './visibility';
 import { mixImmediate } from './immediate';
+import { path } from '../../value/types/path';
+import { mixPath } from './path';
 
 type MixableArray = Array<number | RGBA | HSLA | string>;
 type MixableObject = {
@@ -22,7 +24,13 @@ export function getMixer<T>(a: T) {
 	if (typeof a === 'number') {
 		return mixNumber;
 	} else if (typeof a === 'string') {
-		return isCSSVariableToken(a) ? mixImmediate : color.test(a) ? mixColor : mixComplex;
+		return isCSSVariableToken(a)
+			? mixImmediate
+			: color.test(a)
+				? mixColor
+				: path.test(a)
+					? mixPath
+					: mixComplex;
 	} else if (Array.isArray(a)) {
 		return mixArray;
 	} else if (typeof a === 'object') {
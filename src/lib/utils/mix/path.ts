@@ -0,0 +1,215 @@
+import { path, tokenizePath } from '../../value/types/path';
+import type { CubicSegment, PathData, SubPath } from '../../value/types/path/types';
+import { mixComplex } from './complex';
+import { mixNumber } from './number';
+
+/**
+ * Describe the structure of path data, so we can tell whether two paths can
+ * be mixed number-by-number.
+ */
+function getSignature(d: string) {
+	const commands = tokenizePath(d);
+	return commands && commands.map(([command, params]) => command + params.length).join();
+}
+
+const getEnd = (segment: CubicSegment): [number, number] => [segment[4], segment[5]];
+
+/**
+ * Approximate the length of a curve as the average of its chord and the
+ * length of its control polygon.
+ */
+function getSegmentLength(x: number, y: number, [c1x, c1y, c2x, c2y, x2, y2]: CubicSegment) {
+	const chord = Math.hypot(x2 - x, y2 - y);
+	const polygon = Math.hypot(c1x - x, c1y - y) + Math.hypot(c2x - c1x, c2y - c1y) + Math.hypot(x2 - c2x, y2 - c2y);
+
+	return (chord + polygon) / 2;
+}
+
+/**
+ * Split a curve in half with de Casteljau's algorithm.
+ */
+function splitSegment(x: number, y: number, [c1x, c1y, c2x, c2y, x2, y2]: CubicSegment): CubicSegment[] {
+	const m1x = (x + c1x) / 2;
+	const m1y = (y + c1y) / 2;
+	const m2x = (c1x + c2x) / 2;
+	const m2y = (c1y + c2y) / 2;
+	const m3x = (c2x + x2) / 2;
+	const m3y = (c2y + y2) / 2;
+	const n1x = (m1x + m2x) / 2;
+	const n1y = (m1y + m2y) / 2;
+	const n2x = (m2x + m3x) / 2;
+	const n2y = (m2y + m3y) / 2;
+	const px = (n1x + n2x) / 2;
+	const py = (n1y + n2y) / 2;
+
+	return [
+		[m1x, m1y, n1x, n1y, px, py],
+		[n2x, n2y, m3x, m3y, x2, y2],
+	];
+}
+
+/**
+ * Split the longest curves of a subpath until it has `count` curves.
+ */
+function subdivide({ start, segments, closed }: SubPath, count: number): SubPath {
+	const subdivided: CubicSegment[] = segments.length
+		? segments.map((segment) => [...segment] as CubicSegment)
+		: [[start[0], start[1], start[0], start[1], start[0], start[1]]];
+
+	while (subdivided.length < count) {
+		let longest = 0;
+		let longestLength = -1;
+
+		for (let i = 0; i < subdivided.length; i++) {
+			const [x, y] = i ? getEnd(subdivided[i - 1]) : start;
+			const length = getSegmentLength(x, y, subdivided[i]);
+
+			if (length > longestLength) {
+				longest = i;
+				longestLength = length;
+			}
+		}
+
+		const [x, y] = longest ? getEnd(subdivided[longest - 1]) : start;
+		subdivided.splice(longest, 1, ...splitSegment(x, y, subdivided[longest]));
+	}
+
+	return { start: [...start], segments: subdivided, closed };
+}
+
+/**
+ * Collapse a subpath into a single point at its centre, for it to grow
+ * from or shrink into when the other path has no subpath to pair it with.
+ */
+function collapse({ start, segments, closed }: SubPath): SubPath {
+	const points = [start, ...segments.map(getEnd)];
+	const x = points.reduce((total, point) => total + point[0], 0) / points.length;
+	const y = points.reduce((total, point) => total + point[1], 0) / points.length;
+
+	return {
+		start: [x, y],
+		segments: segments.map((): CubicSegment => [x, y, x, y, x, y]),
+		closed,
+	};
+}
+
+/**
+ * A closed subpath can start from any of its points. Rotate `origin` to start
+ * from the point that keeps its points closest to those of `target`, so the
+ * shape doesn't twist as it morphs.
+ */
+function alignStart(origin: SubPath, target: SubPath): SubPath {
+	const { segments } = origin;
+	const numSegments = segments.length;
+
+	let bestOffset = 0;
+	let bestDistance = Infinity;
+
+	for (let offset = 0; offset < numSegments; offset++) {
+		let distance = 0;
+
+		for (let i = 0; i < numSegments; i++) {
+			const [x, y] = getEnd(segments[(i + offset) % numSegments]);
+			const [targetX, targetY] = getEnd(target.segments[i]);
+			distance += (x - targetX) ** 2 + (y - targetY) ** 2;
+		}
+
+		if (distance < bestDistance) {
+			bestOffset = offset;
+			bestDistance = distance;
+		}
+	}
+
+	if (!bestOffset) return origin;
+
+	return {
+		start: getEnd(segments[bestOffset - 1]),
+		segments: [...segments.slice(bestOffset), ...segments.slice(0, bestOffset)],
+		closed: origin.closed,
+	};
+}
+
+/**
+ * Resample two paths so they have the same number of subpaths, and each pair
+ * of subpaths the same number of curves.
+ */
+function normalise(origin: PathData, target: PathData): [PathData, PathData] {
+	const numSubPaths = Math.max(origin.length, target.length);
+	const normalisedOrigin: PathData = [];
+	const normalisedTarget: PathData = [];
+
+	for (let i = 0; i < numSubPaths; i++) {
+		let from = origin[i] || collapse(target[i]);
+		let to = target[i] || collapse(origin[i]);
+
+		const count = Math.max(from.segments.length, to.segments.length, 1);
+		from = subdivide(from, count);
+		to = subdivide(to, count);
+
+		if (from.closed && to.closed) from = alignStart(from, to);
+
+		normalisedOrigin.push(from);
+		normalisedTarget.push(to);
+	}
+
+	return [normalisedOrigin, normalisedTarget];
+}
+
+/**
+ * Mix between two SVG paths, even if they're made of different commands or a
+ * different number of points.
+ *
+ * Both paths are converted to absolute cubic bezier curves and resampled to the
+ * same number of points. Paths that already share the same structure are mixed
+ * number-by-number, like any other complex value.
+ *
+ * ```javascript
+ * const morph = interpolate([0, 1], [menu, close], { mixer: mixPath })
+ * ```
+ *
+ * @public
+ */
+export function mixPath(from: string | number, to: string | number) {
+	const origin = typeof from === 'string' ? path.parse(from) : undefined;
+	const target = typeof to === 'string' ? path.parse(to) : undefined;
+
+	if (!origin || !target) return mixComplex(from, to);
+
+	const signature = getSignature(from as string);
+
+	/**
+	 * Arc flags can't be interpolated, so arcs are always converted to curves.
+	 */
+	if (signature === getSignature(to as string) && !/a/iu.test(signature!)) {
+		return mixComplex(from, to);
+	}
+
+	const [a, b] = normalise(origin, target);
+
+	const output: PathData = b.map(({ start, segments, closed }) => ({
+		start: [...start],
+		segments: segments.map((segment) => [...segment] as CubicSegment),
+		closed,
+	}));
+
+	return (p: number) => {
+		for (let i = 0; i < output.length; i++) {
+			const subPath = output[i];
+			const fromSubPath = a[i];
+			const toSubPath = b[i];
+
+			subPath.start[0] = mixNumber(fromSubPath.start[0], toSubPath.start[0], p);
+			subPath.start[1] = mixNumber(fromSubPath.start[1], toSubPath.start[1], p);
+
+			for (let j = 0; j < subPath.segments.length; j++) {
+				for (let k = 0; k < 6; k++) {
+					subPath.segments[j][k] = mixNumber(fromSubPath.segments[j][k], toSubPath.segments[j][k], p);
+				}
+			}
+
+			subPath.closed = p < 0.5 ? fromSubPath.closed : toSubPath.closed;
+		}
+
+		return path.transform(output);
+	};
+}
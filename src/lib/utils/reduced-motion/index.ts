@@ -0,0 +1,23 @@
+import { isBrowser } from '../is-browser';
+import { hasReducedMotionListener, prefersReducedMotion } from './state.svelte';
+
+/**
+ * Subscribe to the `prefers-reduced-motion` media query, keeping
+ * `prefersReducedMotion` up to date for every `Visual`.
+ */
+export function initPrefersReducedMotion() {
+	hasReducedMotionListener.current = true;
+	if (!isBrowser) return;
+
+	if (window.matchMedia) {
+		const motionMediaQuery = window.matchMedia('(prefers-reduced-motion)');
+
+		const setReducedMotionPreferences = () => (prefersReducedMotion.current = motionMediaQuery.matches);
+
+		motionMediaQuery.addEventListener('change', setReducedMotionPreferences);
+
+		setReducedMotionPreferences();
+	} else {
+		prefersReducedMotion.current = false;
+	}
+}
@@ -0,0 +1,27 @@
+import { positionalKeys } from '../../render/dom/utils/unit-conversion';
+import { transformProps } from '../../render/html/utils/transform';
+
+/**
+ * Layout animations are checked against the reduced motion policy with this key.
+ */
+export const layoutKey = 'layout';
+
+/**
+ * Decide whether a value should be set instantly when reduced motion is preferred.
+ * Receives the value's key, or `"layout"` for layout animations, and whether the
+ * default policy would reduce it.
+ *
+ * @public
+ */
+export type ReducedMotionOverride = (key: string, shouldReduce: boolean) => boolean;
+
+/**
+ * By default, values that move or resize an element, like transforms and layout
+ * changes, are set instantly when reduced motion is preferred. Values like opacity
+ * and colour don't cause motion, so they continue to animate.
+ */
+export function shouldReduceValueMotion(key: string, override?: ReducedMotionOverride) {
+	const shouldReduce = key === layoutKey || transformProps.has(key) || positionalKeys.has(key);
+
+	return override ? override(key, shouldReduce) : shouldReduce;
+}
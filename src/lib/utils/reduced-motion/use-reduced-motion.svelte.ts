@@ -0,0 +1,58 @@
+import { MotionConfigContext, defaultMotionConfig } from '../../context/MotionConfigContext';
+import { initPrefersReducedMotion } from '.';
+import { hasReducedMotionListener, prefersReducedMotion } from './state.svelte';
+
+/**
+ * A hook that returns whether the device is currently set to reduce motion,
+ * updating whenever the preference changes.
+ *
+ * This can be used to implement changes to your UI based on Reduced Motion. For
+ * instance, replacing motion-sickness inducing `x`/`y` animations with `opacity`,
+ * disabling the autoplay of background videos, or turning off parallax motion.
+ *
+ * `current` is `null` server-side, where the preference is unknown.
+ *
+ * ```svelte
+ * <script>
+ *   const shouldReduceMotion = useReducedMotion()
+ * </script>
+ *
+ * <motion.div animate={{ x: shouldReduceMotion.current ? 0 : 100 }} />
+ * ```
+ *
+ * @public
+ */
+export function useReducedMotion() {
+	if (!hasReducedMotionListener.current) initPrefersReducedMotion();
+
+	return {
+		get current() {
+			return prefersReducedMotion.current;
+		},
+	};
+}
+
+/**
+ * Like `useReducedMotion`, but respects the `reducedMotion` option of the
+ * closest `MotionConfig`.
+ *
+ * @public
+ */
+export function useReducedMotionConfig() {
+	const motionConfig = MotionConfigContext.getOr(defaultMotionConfig);
+	const reducedMotionPreference = useReducedMotion();
+
+	return {
+		get current() {
+			const { reducedMotion } = motionConfig;
+
+			if (reducedMotion === 'never') {
+				return false;
+			} else if (reducedMotion === 'always') {
+				return true;
+			} else {
+				return reducedMotionPreference.current;
+			}
+		},
+	};
+}
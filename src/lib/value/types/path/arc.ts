@@ -0,0 +1,111 @@
+import type { CubicSegment } from './types';
+
+export function lineToCubic(x1: number, y1: number, x2: number, y2: number): CubicSegment {
+	return [x1 + (x2 - x1) / 3, y1 + (y2 - y1) / 3, x1 + ((x2 - x1) * 2) / 3, y1 + ((y2 - y1) * 2) / 3, x2, y2];
+}
+
+function vectorAngle(ux: number, uy: number, vx: number, vy: number) {
+	const sign = ux * vy - uy * vx < 0 ? -1 : 1;
+	const dot = (ux * vx + uy * vy) / (Math.hypot(ux, uy) * Math.hypot(vx, vy));
+
+	return sign * Math.acos(Math.min(1, Math.max(-1, dot)));
+}
+
+/**
+ * Convert an SVG elliptical arc into cubic bezier curves, each spanning at
+ * most a quarter of the ellipse.
+ *
+ * https://www.w3.org/TR/SVG/implnote.html#ArcConversionEndpointToCenter
+ */
+export function arcToCubic(
+	x1: number,
+	y1: number,
+	rx: number,
+	ry: number,
+	angle: number,
+	largeArc: number,
+	sweep: number,
+	x2: number,
+	y2: number
+): CubicSegment[] {
+	if (x1 === x2 && y1 === y2) return [];
+
+	rx = Math.abs(rx);
+	ry = Math.abs(ry);
+
+	// An arc with a zero radius is treated as a straight line
+	if (!rx || !ry) return [lineToCubic(x1, y1, x2, y2)];
+
+	const phi = (angle * Math.PI) / 180;
+	const cos = Math.cos(phi);
+	const sin = Math.sin(phi);
+
+	// Transform the start point into the ellipse's coordinate space
+	const dx = (x1 - x2) / 2;
+	const dy = (y1 - y2) / 2;
+	const x1p = cos * dx + sin * dy;
+	const y1p = -sin * dx + cos * dy;
+
+	// Scale up radii that are too small to reach the end point
+	const lambda = (x1p * x1p) / (rx * rx) + (y1p * y1p) / (ry * ry);
+	if (lambda > 1) {
+		rx *= Math.sqrt(lambda);
+		ry *= Math.sqrt(lambda);
+	}
+
+	const rx2 = rx * rx;
+	const ry2 = ry * ry;
+	const numerator = rx2 * ry2 - rx2 * y1p * y1p - ry2 * x1p * x1p;
+	const denominator = rx2 * y1p * y1p + ry2 * x1p * x1p;
+
+	let coefficient = Math.sqrt(Math.max(0, numerator / denominator));
+	if (largeArc === sweep) coefficient = -coefficient;
+
+	const cxp = (coefficient * rx * y1p) / ry;
+	const cyp = (-coefficient * ry * x1p) / rx;
+	const cx = cos * cxp - sin * cyp + (x1 + x2) / 2;
+	const cy = sin * cxp + cos * cyp + (y1 + y2) / 2;
+
+	const ux = (x1p - cxp) / rx;
+	const uy = (y1p - cyp) / ry;
+	const theta = vectorAngle(1, 0, ux, uy);
+	let delta = vectorAngle(ux, uy, (-x1p - cxp) / rx, (-y1p - cyp) / ry);
+
+	if (!sweep && delta > 0) {
+		delta -= Math.PI * 2;
+	} else if (sweep && delta < 0) {
+		delta += Math.PI * 2;
+	}
+
+	const numSegments = Math.max(1, Math.ceil(Math.abs(delta) / (Math.PI / 2)));
+	const step = delta / numSegments;
+	const k = (4 / 3) * Math.tan(step / 4);
+
+	const mapX = (x: number, y: number) => cos * rx * x - sin * ry * y + cx;
+	const mapY = (x: number, y: number) => sin * rx * x + cos * ry * y + cy;
+
+	const segments: CubicSegment[] = [];
+
+	for (let i = 0; i < numSegments; i++) {
+		const theta1 = theta + i * step;
+		const theta2 = theta1 + step;
+		const cos1 = Math.cos(theta1);
+		const sin1 = Math.sin(theta1);
+		const cos2 = Math.cos(theta2);
+		const sin2 = Math.sin(theta2);
+
+		const c1x = cos1 - k * sin1;
+		const c1y = sin1 + k * cos1;
+		const c2x = cos2 + k * sin2;
+		const c2y = sin2 - k * cos2;
+
+		segments.push([mapX(c1x, c1y), mapY(c1x, c1y), mapX(c2x, c2y), mapY(c2x, c2y), mapX(cos2, sin2), mapY(cos2, sin2)]);
+	}
+
+	// Land exactly on the end point, rather than wherever rounding errors take us
+	const last = segments[segments.length - 1];
+	last[4] = x2;
+	last[5] = y2;
+
+	return segments;
+}
@@ -0,0 +1,261 @@
+import { sanitize } from '../utils/sanitize';
+import { arcToCubic, lineToCubic } from './arc';
+import type { CubicSegment, PathCommand, PathData, SubPath } from './types';
+
+const paramCounts: { [command: string]: number } = {
+	m: 2,
+	l: 2,
+	h: 1,
+	v: 1,
+	c: 6,
+	s: 4,
+	q: 4,
+	t: 2,
+	a: 7,
+	z: 0,
+};
+
+const commandRegex = /[mlhvcsqtaz]/iu;
+const separatorRegex = /[\s,]/u;
+const numberRegex = /[-+]?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?/iuy;
+
+const pathRegex = /^\s*[mM][\s,]*[-+.\d][\d\s,.eE+\-mlhvcsqtazMLHVCSQTAZ]*$/u;
+
+/**
+ * Whether a command has received a whole number of parameter sets.
+ */
+function isComplete([command, params]: PathCommand) {
+	const count = paramCounts[command.toLowerCase()];
+	return count ? params.length > 0 && params.length % count === 0 : !params.length;
+}
+
+/**
+ * Split path data into its commands and their parameters. Commands with
+ * implicitly repeated parameters are split into one command each.
+ *
+ * Returns `undefined` if the path data is malformed.
+ */
+export function tokenizePath(d: string): PathCommand[] | undefined {
+	const commands: PathCommand[] = [];
+	let current: PathCommand | undefined;
+	let i = 0;
+
+	while (i < d.length) {
+		const char = d[i];
+
+		if (separatorRegex.test(char)) {
+			i++;
+			continue;
+		}
+
+		if (commandRegex.test(char)) {
+			if (current && !isComplete(current)) return;
+
+			current = [char, []];
+			commands.push(current);
+			i++;
+			continue;
+		}
+
+		if (!current || current[0].toLowerCase() === 'z') return;
+
+		const params = current[1];
+
+		/**
+		 * Arc flags are a single digit, and can be written without a separator.
+		 */
+		const paramIndex = params.length % 7;
+		if (current[0].toLowerCase() === 'a' && (paramIndex === 3 || paramIndex === 4)) {
+			if (char !== '0' && char !== '1') return;
+			params.push(Number(char));
+			i++;
+			continue;
+		}
+
+		numberRegex.lastIndex = i;
+		const match = numberRegex.exec(d);
+		if (!match) return;
+
+		params.push(Number.parseFloat(match[0]));
+		i = numberRegex.lastIndex;
+	}
+
+	if (current && !isComplete(current)) return;
+
+	/**
+	 * Split repeated parameters into individual commands. Coordinates that follow
+	 * a moveto are treated as implicit lineto commands.
+	 */
+	const split: PathCommand[] = [];
+
+	for (const [command, params] of commands) {
+		const count = paramCounts[command.toLowerCase()];
+
+		if (!count) {
+			split.push([command, params]);
+			continue;
+		}
+
+		for (let j = 0; j < params.length; j += count) {
+			const isImplicitLine = j > 0 && command.toLowerCase() === 'm';
+			const repeated = isImplicitLine ? (command === 'm' ? 'l' : 'L') : command;
+			split.push([repeated, params.slice(j, j + count)]);
+		}
+	}
+
+	return split;
+}
+
+/**
+ * Parse SVG path data into absolute cubic bezier curves.
+ */
+function parse(d: string): PathData | undefined {
+	const commands = tokenizePath(d);
+	if (!commands) return;
+
+	const data: PathData = [];
+	let subPath: SubPath | undefined;
+
+	let x = 0;
+	let y = 0;
+
+	// The last control point, used to reflect smooth curves
+	let controlX = 0;
+	let controlY = 0;
+	let prevCommand = '';
+
+	const addSegment = (segment: CubicSegment) => {
+		if (!subPath || subPath.closed) {
+			subPath = { start: [x, y], segments: [], closed: false };
+			data.push(subPath);
+		}
+
+		subPath.segments.push(segment);
+	};
+
+	for (const [command, params] of commands) {
+		const type = command.toLowerCase();
+		const isRelative = command !== command.toUpperCase();
+		const offsetX = isRelative ? x : 0;
+		const offsetY = isRelative ? y : 0;
+
+		let nextX = x;
+		let nextY = y;
+
+		switch (type) {
+			case 'm':
+				nextX = params[0] + offsetX;
+				nextY = params[1] + offsetY;
+				subPath = { start: [nextX, nextY], segments: [], closed: false };
+				data.push(subPath);
+				break;
+			case 'l':
+				nextX = params[0] + offsetX;
+				nextY = params[1] + offsetY;
+				addSegment(lineToCubic(x, y, nextX, nextY));
+				break;
+			case 'h':
+				nextX = params[0] + offsetX;
+				addSegment(lineToCubic(x, y, nextX, nextY));
+				break;
+			case 'v':
+				nextY = params[0] + offsetY;
+				addSegment(lineToCubic(x, y, nextX, nextY));
+				break;
+			case 'c':
+				nextX = params[4] + offsetX;
+				nextY = params[5] + offsetY;
+				controlX = params[2] + offsetX;
+				controlY = params[3] + offsetY;
+				addSegment([params[0] + offsetX, params[1] + offsetY, controlX, controlY, nextX, nextY]);
+				break;
+			case 's': {
+				const isSmooth = prevCommand === 'c' || prevCommand === 's';
+				const c1x = isSmooth ? 2 * x - controlX : x;
+				const c1y = isSmooth ? 2 * y - controlY : y;
+				nextX = params[2] + offsetX;
+				nextY = params[3] + offsetY;
+				controlX = params[0] + offsetX;
+				controlY = params[1] + offsetY;
+				addSegment([c1x, c1y, controlX, controlY, nextX, nextY]);
+				break;
+			}
+			case 'q':
+			case 't': {
+				const isSmooth = type === 't' && (prevCommand === 'q' || prevCommand === 't');
+
+				if (type === 'q') {
+					controlX = params[0] + offsetX;
+					controlY = params[1] + offsetY;
+					nextX = params[2] + offsetX;
+					nextY = params[3] + offsetY;
+				} else {
+					controlX = isSmooth ? 2 * x - controlX : x;
+					controlY = isSmooth ? 2 * y - controlY : y;
+					nextX = params[0] + offsetX;
+					nextY = params[1] + offsetY;
+				}
+
+				// Elevate the quadratic curve to a cubic one
+				addSegment([
+					x + ((controlX - x) * 2) / 3,
+					y + ((controlY - y) * 2) / 3,
+					nextX + ((controlX - nextX) * 2) / 3,
+					nextY + ((controlY - nextY) * 2) / 3,
+					nextX,
+					nextY,
+				]);
+				break;
+			}
+			case 'a':
+				nextX = params[5] + offsetX;
+				nextY = params[6] + offsetY;
+				arcToCubic(x, y, params[0], params[1], params[2], params[3], params[4], nextX, nextY).forEach(addSegment);
+				break;
+			case 'z':
+				if (!subPath || subPath.closed) break;
+
+				nextX = subPath.start[0];
+				nextY = subPath.start[1];
+
+				// Close the subpath with an explicit segment, so every closed subpath ends where it started
+				if (x !== nextX || y !== nextY) addSegment(lineToCubic(x, y, nextX, nextY));
+
+				subPath.closed = true;
+				break;
+		}
+
+		x = nextX;
+		y = nextY;
+		prevCommand = type;
+	}
+
+	return data;
+}
+
+const formatNumber = (v: number) => String(sanitize(v));
+
+/**
+ * Serialise normalised path data back into an SVG path string.
+ */
+function transform(data: PathData) {
+	let d = '';
+
+	for (const { start, segments, closed } of data) {
+		d += `M${formatNumber(start[0])} ${formatNumber(start[1])}`;
+
+		if (segments.length) {
+			d += 'C' + segments.map((segment) => segment.map(formatNumber).join(' ')).join(' ');
+		}
+
+		if (closed) d += 'Z';
+	}
+
+	return d;
+}
+
+export const path = {
+	test: (v: unknown) => typeof v === 'string' && pathRegex.test(v),
+	parse,
+	transform,
+};
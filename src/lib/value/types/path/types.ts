@@ -0,0 +1,18 @@
+/**
+ * A cubic bezier curve from the end of the previous segment, as
+ * `[control1X, control1Y, control2X, control2Y, x, y]`.
+ */
+export type CubicSegment = [number, number, number, number, number, number];
+
+export interface SubPath {
+	start: [number, number];
+	segments: CubicSegment[];
+	closed: boolean;
+}
+
+/**
+ * SVG path data, normalised to absolute cubic bezier curves.
+ */
+export type PathData = SubPath[];
+
+export type PathCommand = [command: string, params: number[]];